@@ -1,11 +1,27 @@
 import { CONFIG } from './config';
-import { Tile, AdjacencyRules } from './tileSet';
+import { Tile, TileSet, AdjacencyRules, Direction } from './core/tileSet';
+import { imageToCanvas } from './canvasUtils';
+
+type AdjacencyView = 'neighbors' | 'reverse' | 'matrix';
+
+const DIRECTIONS: readonly Direction[] = ['up', 'down', 'left', 'right'];
 
 /**
- * Handles visualization of tile adjacency relationships
+ * Explores tile adjacency rules. Hovering a gallery tile previews its rules; clicking pins
+ * it so the panel stays put, and clicking a neighbor pins that one instead.
+ * Besides the tile's own neighbors it can show the reverse view (which tiles allow it)
+ * and, for small tilesets, a matrix of the whole rule set.
  */
 export class AdjacencyViewer {
   private container: HTMLElement;
+  private tileSet: TileSet | null = null;
+  private tilesById = new Map<number, Tile>();
+  private thumbnails = new Map<number, HTMLCanvasElement>();
+  // For each tile and direction d, the tiles that list it as their d neighbor
+  private reverse = new Map<number, AdjacencyRules>();
+  private pinned: number | null = null;
+  private view: AdjacencyView = 'neighbors';
+  private navigateCallback: ((tileId: number) => void) | null = null;
 
   constructor(containerId: string) {
     const el = document.getElementById(containerId);
@@ -16,49 +32,186 @@ export class AdjacencyViewer {
   }
 
   /**
-   * Display adjacency information for a specific tile
+   * Use a new tile set, dropping the pinned tile
+   */
+  setTileSet(tileSet: TileSet | null): void {
+    this.tileSet = tileSet;
+    this.pinned = null;
+    this.tilesById = new Map(tileSet?.getTiles().map(tile => [tile.id, tile]) ?? []);
+    this.thumbnails.clear();
+    this.reverse.clear();
+    if (tileSet) {
+      for (const tile of tileSet.getTiles()) {
+        this.reverse.set(tile.id, { up: [], down: [], left: [], right: [] });
+      }
+      for (const [id, rules] of tileSet.getAdjacencyRules()) {
+        for (const direction of DIRECTIONS) {
+          for (const neighborId of rules[direction]) {
+            this.reverse.get(neighborId)?.[direction].push(id);
+          }
+        }
+      }
+    }
+    if (this.view === 'matrix' && !this.matrixAvailable()) {
+      this.view = 'neighbors';
+    }
+    this.clear();
+  }
+
+  /**
+   * Called when the user clicks a neighbor (or a matrix row) to move to that tile
+   */
+  onNavigate(callback: (tileId: number) => void): void {
+    this.navigateCallback = callback;
+  }
+
+  /**
+   * Preview a tile's rules while hovering; ignored while a tile is pinned
+   */
+  show(tileId: number): void {
+    if (this.pinned !== null) return;
+    this.render(tileId);
+  }
+
+  /**
+   * Keep a tile's rules on screen until another tile is pinned or it is unpinned
    */
-  show(tileIndex: number, adjacencies: AdjacencyRules, tiles: Tile[], frequency?: number): void {
-    if (!tiles[tileIndex]) {
-      console.warn(`Tile ${tileIndex} not found`);
+  pin(tileId: number | null): void {
+    this.pinned = tileId;
+    if (tileId === null) {
+      this.clear();
+    } else {
+      this.render(tileId);
+    }
+  }
+
+  /**
+   * Clear the hover preview; a pinned tile stays
+   */
+  clear(): void {
+    this.render(this.pinned);
+  }
+
+  private render(tileId: number | null): void {
+    const tileSet = this.tileSet;
+    this.container.innerHTML = '';
+    if (!tileSet) {
+      this.container.appendChild(this.createHint('Generate or load tiles to see their adjacencies...'));
       return;
     }
 
-    this.container.innerHTML = `<h3>Adjacencies:</h3>`;
-    // Show frequency info
-    if (typeof frequency === 'number') {
-      const freqDiv = document.createElement('div');
-      freqDiv.style.marginBottom = '8px';
-      freqDiv.innerHTML = `<strong>Frequency:</strong> ${frequency}`;
-      this.container.appendChild(freqDiv);
+    this.container.appendChild(this.createToolbar());
+
+    if (this.view === 'matrix') {
+      this.container.appendChild(this.createMatrix(tileId));
+      return;
+    }
+    if (tileId === null || !this.tilesById.has(tileId)) {
+      this.container.appendChild(this.createHint('Hover over a tile to see its adjacencies, click to pin it...'));
+      return;
     }
 
-    const directions: Array<keyof AdjacencyRules> = ['up', 'down', 'left', 'right'];
-    for (const dir of directions) {
+    const header = document.createElement('div');
+    header.className = 'adjacency-header';
+    header.appendChild(this.createTileFigure(tileId, false));
+    const title = document.createElement('h3');
+    title.textContent = this.view === 'neighbors' ? `Tile ${tileId} allows` : `Tile ${tileId} is allowed by`;
+    header.appendChild(title);
+    if (this.pinned === tileId) {
+      const unpin = document.createElement('button');
+      unpin.type = 'button';
+      unpin.className = 'secondary';
+      unpin.textContent = 'Unpin';
+      unpin.addEventListener('click', () => this.pin(null));
+      header.appendChild(unpin);
+    }
+    this.container.appendChild(header);
+
+    const rules = this.view === 'neighbors'
+      ? tileSet.getAdjacencyRules().get(tileId)
+      : this.reverse.get(tileId);
+    for (const direction of DIRECTIONS) {
       const dirDiv = document.createElement('div');
-      dirDiv.innerHTML = `<strong>${dir.toUpperCase()}:</strong>`;
+      const label = document.createElement('strong');
+      const ids = rules?.[direction] ?? [];
+      label.textContent = this.view === 'neighbors'
+        ? `${direction.toUpperCase()} (${ids.length})`
+        : `As ${direction.toUpperCase()} neighbor of (${ids.length})`;
+      dirDiv.appendChild(label);
 
       const tilesDiv = document.createElement('div');
-      tilesDiv.style.display = 'flex';
-      tilesDiv.style.gap = '2px';
-      tilesDiv.style.flexWrap = 'wrap';
-
-      const adjList = adjacencies[dir];
-      for (const adjId of adjList) {
-        const tile = tiles[adjId];
-        if (!tile) continue;
-
-        const preview = this.createTilePreview(tile);
-        if (preview) {
-          tilesDiv.appendChild(preview);
-        }
+      tilesDiv.className = 'adjacency-tiles';
+      for (const id of ids) {
+        if (this.tilesById.has(id)) tilesDiv.appendChild(this.createTileFigure(id, true));
+      }
+      if (ids.length === 0) {
+        tilesDiv.textContent = 'none';
       }
-
       dirDiv.appendChild(tilesDiv);
       this.container.appendChild(dirDiv);
     }
   }
 
+  private createHint(text: string): HTMLElement {
+    const hint = document.createElement('em');
+    hint.className = 'adjacency-hint';
+    hint.textContent = text;
+    return hint;
+  }
+
+  private createToolbar(): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'adjacency-toolbar';
+    const views: Array<[AdjacencyView, string]> = [
+      ['neighbors', 'Neighbors'],
+      ['reverse', 'Allowed by'],
+      ['matrix', 'Matrix']
+    ];
+    for (const [view, text] of views) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = text;
+      button.className = view === this.view ? '' : 'secondary';
+      if (view === 'matrix' && !this.matrixAvailable()) {
+        button.disabled = true;
+        button.title = `Only for tilesets of up to ${CONFIG.ui.maxMatrixTiles} tiles`;
+      }
+      button.addEventListener('click', () => {
+        this.view = view;
+        this.clear();
+      });
+      toolbar.appendChild(button);
+    }
+    return toolbar;
+  }
+
+  /**
+   * Thumbnail with ID and frequency; neighbors can be clicked to navigate
+   */
+  private createTileFigure(tileId: number, clickable: boolean): HTMLElement {
+    const figure = document.createElement('figure');
+    figure.className = 'adjacency-tile';
+    const frequency = this.tileSet?.getTileFrequencies().get(tileId) ?? 0;
+
+    const preview = this.createTilePreview(this.tilesById.get(tileId)!);
+    if (preview) figure.appendChild(preview);
+    const caption = document.createElement('figcaption');
+    caption.textContent = `#${tileId} · ${frequency}`;
+    figure.title = `Tile ${tileId}, frequency ${frequency}`;
+    figure.appendChild(caption);
+
+    if (clickable) {
+      figure.classList.add('clickable');
+      figure.addEventListener('click', () => this.navigate(tileId));
+    }
+    return figure;
+  }
+
+  private navigate(tileId: number): void {
+    this.pin(tileId);
+    this.navigateCallback?.(tileId);
+  }
+
   /**
    * Create a preview canvas for a tile
    */
@@ -67,7 +220,7 @@ export class AdjacencyViewer {
     const preview = document.createElement('canvas');
     preview.width = previewSize;
     preview.height = previewSize;
-    
+
     const ctx = preview.getContext('2d');
     if (!ctx) {
       console.error('Failed to get 2D context for preview canvas');
@@ -75,18 +228,109 @@ export class AdjacencyViewer {
     }
 
     ctx.imageSmoothingEnabled = false;
-    ctx.drawImage(tile.canvas, 0, 0, previewSize, previewSize);
-    
+    ctx.drawImage(this.thumbnail(tile), 0, 0, previewSize, previewSize);
+
     preview.style.imageRendering = 'pixelated';
     preview.style.border = '1px solid #999';
-    
+
     return preview;
   }
 
+  private thumbnail(tile: Tile): HTMLCanvasElement {
+    let canvas = this.thumbnails.get(tile.id);
+    if (!canvas) {
+      canvas = imageToCanvas(tile.pixelData);
+      this.thumbnails.set(tile.id, canvas);
+    }
+    return canvas;
+  }
+
+  private matrixAvailable(): boolean {
+    return this.tilesById.size > 0 && this.tilesById.size <= CONFIG.ui.maxMatrixTiles;
+  }
+
   /**
-   * Clear the adjacency display
+   * Row tile A, column tile B: a bar on a cell's top, bottom, left or right edge means
+   * B may sit on that side of A. The highlighted row is the current tile.
    */
-  clear(): void {
-    this.container.innerHTML = '';
+  private createMatrix(highlight: number | null): HTMLElement {
+    const tiles = this.tileSet!.getTiles();
+    const rules = this.tileSet!.getAdjacencyRules();
+    const cell = CONFIG.ui.matrixCellSize;
+    const count = tiles.length;
+    // The first row and column hold tile thumbnails
+    const size = (count + 1) * cell;
+
+    const canvas = document.createElement('canvas');
+    canvas.className = 'adjacency-matrix';
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2D rendering context');
+    ctx.imageSmoothingEnabled = false;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, size, size);
+    tiles.forEach((tile, i) => {
+      const offset = (i + 1) * cell;
+      ctx.drawImage(this.thumbnail(tile), offset, 0, cell, cell);
+      ctx.drawImage(this.thumbnail(tile), 0, offset, cell, cell);
+      if (tile.id === highlight) {
+        ctx.fillStyle = 'rgba(102, 126, 234, 0.2)';
+        ctx.fillRect(cell, offset, size - cell, cell);
+      }
+    });
+
+    const bar = Math.max(1, Math.floor(cell / 4));
+    ctx.fillStyle = '#333333';
+    tiles.forEach((a, row) => {
+      const tileRules = rules.get(a.id);
+      if (!tileRules) return;
+      const y = (row + 1) * cell;
+      tiles.forEach((b, column) => {
+        const x = (column + 1) * cell;
+        if (tileRules.up.includes(b.id)) ctx.fillRect(x, y, cell, bar);
+        if (tileRules.down.includes(b.id)) ctx.fillRect(x, y + cell - bar, cell, bar);
+        if (tileRules.left.includes(b.id)) ctx.fillRect(x, y, bar, cell);
+        if (tileRules.right.includes(b.id)) ctx.fillRect(x + cell - bar, y, bar, cell);
+      });
+    });
+
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)';
+    ctx.lineWidth = 1;
+    for (let i = 1; i <= count; i++) {
+      ctx.beginPath();
+      ctx.moveTo(i * cell + 0.5, 0);
+      ctx.lineTo(i * cell + 0.5, size);
+      ctx.moveTo(0, i * cell + 0.5);
+      ctx.lineTo(size, i * cell + 0.5);
+      ctx.stroke();
+    }
+
+    const cellAt = (event: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const column = Math.floor(((event.clientX - rect.left) / rect.width) * (count + 1)) - 1;
+      const row = Math.floor(((event.clientY - rect.top) / rect.height) * (count + 1)) - 1;
+      return { row, column };
+    };
+    canvas.addEventListener('mousemove', (event) => {
+      const { row, column } = cellAt(event);
+      const a = tiles[row];
+      const b = tiles[column];
+      if (!a || !b) {
+        canvas.title = '';
+        return;
+      }
+      const sides = DIRECTIONS.filter(direction => rules.get(a.id)?.[direction].includes(b.id));
+      canvas.title = sides.length > 0
+        ? `${b.id} may be ${sides.join(', ')} of ${a.id}`
+        : `${b.id} may not touch ${a.id}`;
+    });
+    canvas.addEventListener('click', (event) => {
+      const tile = tiles[cellAt(event).row];
+      if (tile) this.navigate(tile.id);
+    });
+
+    return canvas;
   }
 }
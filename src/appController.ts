@@ -1,25 +1,77 @@
 import { SampleList } from './sampleList';
 import { SamplePreview } from './samplePreview';
 import { TileExtractor } from './tileExtractor';
-import { TileSet, Tile } from './tileSet';
+import { Symmetry, SYMMETRY_OPTIONS } from './core/symmetry';
+import { TileSet, Tile } from './core/tileSet';
 import { CONFIG } from './config';
 import { AdjacencyViewer } from './adjacencyViewer';
-import { WFCGenerator } from './wfcGenerator';
+import { randomSeed } from './core/random';
+import { WFCWorkerClient } from './wfcWorkerClient';
+import { ExtractionWorkerClient } from './extractionWorkerClient';
+import { ExtractionStage } from './workerProtocol';
+import { RGBAImage } from './core/image';
+import { WFCGenerator, WFCStats, WeightingStrategy } from './core/wfcGenerator';
+import { CellSelectionName } from './core/cellSelection';
+import { VisualizationMode } from './core/visualization';
+import { downloadBlob, toImageData } from './canvasUtils';
+import { loadSimpleTiledModel } from './tilesetLoader';
+import { ConstraintPainter } from './constraintPainter';
+import { BorderEditor } from './borderEditor';
+import { WorldViewport } from './worldViewport';
+import { ChunkedWorld } from './core/chunkedWorld';
+import { WorkerGenerateOptions } from './workerProtocol';
+import { ResultExporter } from './resultExporter';
+import { importSampleImage } from './sampleImport';
+import { TileSetAnalysis, analyzeTileSet } from './core/tileSetAnalyzer';
+import { StepDebugger } from './stepDebugger';
 
 export class AppController {
   private sampleList: SampleList;
   private previewCanvas: SamplePreview;
   private tileExtractor: TileExtractor;
   private adjacencyViewer: AdjacencyViewer;
+  private constraintPainter: ConstraintPainter;
+  private borderEditor: BorderEditor;
+  private worldViewport: WorldViewport;
+  private resultExporter: ResultExporter;
+  private stepDebugger: StepDebugger;
+  private exploreWorldBtn: HTMLButtonElement;
+  private chunkSizeInput: HTMLInputElement;
   private tileSizeInput: HTMLInputElement;
+  private symmetrySelect: HTMLSelectElement;
+  private periodicInputInput: HTMLInputElement;
   private generateBtn: HTMLButtonElement;
+  private tilesetFileInput: HTMLInputElement;
+  private tileSetImportInput: HTMLInputElement;
+  private exportTileSetBtn: HTMLButtonElement;
+  private sampleFileInput: HTMLInputElement;
+  private samplePanel: HTMLElement;
+  private pastedImageCount = 0;
   private generateWfcBtn: HTMLButtonElement;
-  private outputSizeInput: HTMLInputElement;
+  private cancelWfcBtn: HTMLButtonElement;
+  private debugWfcBtn: HTMLButtonElement;
+  private outputWidthInput: HTMLInputElement;
+  private outputHeightInput: HTMLInputElement;
+  private seedInput: HTMLInputElement;
+  private periodicOutputInput: HTMLInputElement;
+  private weightingSelect: HTMLSelectElement;
+  private cellSelectionSelect: HTMLSelectElement;
+  private backjumpingInput: HTMLInputElement;
+  private visualizationSelect: HTMLSelectElement;
   private wfcOutputDiv: HTMLElement;
   private outputSizePreview: HTMLElement;
   private currentTileSet: TileSet | null = null;
   private currentTiles: Tile[] = [];
+  private tileSetAnalysis: TileSetAnalysis | null = null;
+  private diagnosticsDiv: HTMLElement;
+  // Sample path or tileset file name, referenced by exports
+  private currentTileSetSource = '';
   private isGenerating = false;
+  private generationController: AbortController | null = null;
+  private workerClient = new WFCWorkerClient();
+  private extractionClient = new ExtractionWorkerClient();
+  // The world gets its own worker, since a worker runs one generation at a time
+  private worldWorkerClient: WFCWorkerClient | null = null;
   private currentTileSize: number = 3;
 
   constructor(
@@ -31,7 +83,8 @@ export class AppController {
     tileSizeInputId: string,
     adjacencyViewerId: string,
     generateWfcBtnId: string,
-    outputSizeInputId: string,
+    outputWidthInputId: string,
+    outputHeightInputId: string,
     wfcOutputId: string,
     samples: string[]
   ) {
@@ -39,39 +92,201 @@ export class AppController {
     this.previewCanvas = new SamplePreview(previewId);
     this.tileExtractor = new TileExtractor(tileContainerId, tileCountId);
     this.adjacencyViewer = new AdjacencyViewer(adjacencyViewerId);
+    this.constraintPainter = new ConstraintPainter(CONFIG.elements.constraintPainter);
+    this.borderEditor = new BorderEditor(CONFIG.elements.borderEditor);
+    this.worldViewport = new WorldViewport(CONFIG.elements.worldViewport);
+    this.resultExporter = new ResultExporter(CONFIG.elements.resultExporter);
+    this.stepDebugger = new StepDebugger(CONFIG.elements.stepDebugger);
+    this.diagnosticsDiv = document.getElementById(CONFIG.elements.diagnostics) as HTMLElement;
+    this.exploreWorldBtn = document.getElementById(CONFIG.elements.exploreWorldBtn) as HTMLButtonElement;
+    this.chunkSizeInput = document.getElementById(CONFIG.elements.chunkSizeInput) as HTMLInputElement;
     this.generateBtn = document.getElementById(generateBtnId) as HTMLButtonElement;
     this.tileSizeInput = document.getElementById(tileSizeInputId) as HTMLInputElement;
+    this.tilesetFileInput = document.getElementById(CONFIG.elements.tilesetFileInput) as HTMLInputElement;
+    this.tileSetImportInput = document.getElementById(CONFIG.elements.tileSetImportInput) as HTMLInputElement;
+    this.exportTileSetBtn = document.getElementById(CONFIG.elements.exportTileSetBtn) as HTMLButtonElement;
+    this.sampleFileInput = document.getElementById(CONFIG.elements.sampleFileInput) as HTMLInputElement;
+    this.samplePanel = document.getElementById(CONFIG.elements.samplePanel) as HTMLElement;
+    this.symmetrySelect = document.getElementById(CONFIG.elements.symmetrySelect) as HTMLSelectElement;
+    this.periodicInputInput = document.getElementById(CONFIG.elements.periodicInputInput) as HTMLInputElement;
     this.generateWfcBtn = document.getElementById(generateWfcBtnId) as HTMLButtonElement;
-    this.outputSizeInput = document.getElementById(outputSizeInputId) as HTMLInputElement;
+    this.cancelWfcBtn = document.getElementById(CONFIG.elements.cancelWfcBtn) as HTMLButtonElement;
+    this.debugWfcBtn = document.getElementById(CONFIG.elements.debugWfcBtn) as HTMLButtonElement;
+    this.outputWidthInput = document.getElementById(outputWidthInputId) as HTMLInputElement;
+    this.outputHeightInput = document.getElementById(outputHeightInputId) as HTMLInputElement;
     this.wfcOutputDiv = document.getElementById(wfcOutputId) as HTMLElement;
     this.outputSizePreview = document.getElementById('output-size-preview') as HTMLElement;
+    this.seedInput = document.getElementById(CONFIG.elements.seedInput) as HTMLInputElement;
+    this.periodicOutputInput = document.getElementById(CONFIG.elements.periodicOutputInput) as HTMLInputElement;
+    this.weightingSelect = document.getElementById(CONFIG.elements.weightingSelect) as HTMLSelectElement;
+    this.cellSelectionSelect = document.getElementById(CONFIG.elements.cellSelectionSelect) as HTMLSelectElement;
+    this.backjumpingInput = document.getElementById(CONFIG.elements.backjumpingInput) as HTMLInputElement;
+    this.visualizationSelect = document.getElementById(CONFIG.elements.visualizationSelect) as HTMLSelectElement;
 
     this.init();
   }
 
   private init() {
     this.sampleList.onSelect((src: string) => this.previewCanvas.showImage(src));
+    this.periodicInputInput.addEventListener('change', () => {
+      this.previewCanvas.setPeriodicInput(this.periodicInputInput.checked);
+    });
     this.generateBtn.addEventListener('click', () => {
       void this.generateTiles();
     });
+    this.tilesetFileInput.addEventListener('change', () => {
+      void this.loadTileset();
+    });
+    this.tileSetImportInput.addEventListener('change', () => {
+      void this.importTileSet();
+    });
+    this.exportTileSetBtn.addEventListener('click', () => {
+      this.exportTileSet();
+    });
+    this.sampleFileInput.addEventListener('change', async () => {
+      await this.importSamples(Array.from(this.sampleFileInput.files ?? []));
+      // Allow picking the same file again
+      this.sampleFileInput.value = '';
+    });
+    this.samplePanel.addEventListener('dragover', (e) => {
+      e.preventDefault();
+      this.samplePanel.classList.add('drop-target');
+    });
+    this.samplePanel.addEventListener('dragleave', () => {
+      this.samplePanel.classList.remove('drop-target');
+    });
+    this.samplePanel.addEventListener('drop', (e) => {
+      e.preventDefault();
+      this.samplePanel.classList.remove('drop-target');
+      void this.importSamples(Array.from(e.dataTransfer?.files ?? []));
+    });
+    document.addEventListener('paste', (e) => {
+      const images = Array.from(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+      if (images.length === 0) return;
+      e.preventDefault();
+      // Clipboard images are all called image.png, so number them instead
+      void this.importSamples(images.map(file =>
+        new File([file], `pasted-${++this.pastedImageCount}.png`, { type: file.type })
+      ));
+    });
     this.generateWfcBtn.addEventListener('click', () => {
       void this.generateWFC();
     });
-    this.outputSizeInput.addEventListener('input', () => {
+    this.cancelWfcBtn.addEventListener('click', () => {
+      this.generationController?.abort();
+    });
+    this.debugWfcBtn.addEventListener('click', () => {
+      this.debugWFC();
+    });
+    this.visualizationSelect.addEventListener('change', () => {
+      const mode = this.visualizationSelect.value as VisualizationMode;
+      this.workerClient.setVisualization(mode);
+      this.stepDebugger.setVisualization(mode);
+    });
+    this.outputWidthInput.addEventListener('input', () => {
+      this.updateOutputSizePreview();
+    });
+    this.outputHeightInput.addEventListener('input', () => {
+      this.updateOutputSizePreview();
+    });
+    this.periodicOutputInput.addEventListener('change', () => {
       this.updateOutputSizePreview();
     });
+    this.exploreWorldBtn.addEventListener('click', () => {
+      this.exploreWorld();
+    });
+    this.tileExtractor.onTileClick((tileIndex: number) => {
+      this.constraintPainter.setTileBrush(tileIndex);
+      this.borderEditor.setSelectedTile(tileIndex);
+      this.adjacencyViewer.pin(tileIndex);
+    });
+    this.adjacencyViewer.onNavigate((tileIndex: number) => {
+      this.tileExtractor.selectTile(tileIndex);
+      this.constraintPainter.setTileBrush(tileIndex);
+      this.borderEditor.setSelectedTile(tileIndex);
+    });
+    this.updateOutputSizePreview();
   }
 
   private updateOutputSizePreview() {
-    const gridSize = parseInt(this.outputSizeInput.value);
-    if (isNaN(gridSize) || !this.currentTileSet) {
+    const gridWidth = parseInt(this.outputWidthInput.value);
+    const gridHeight = parseInt(this.outputHeightInput.value);
+    const { minSize, maxSize } = CONFIG.grid;
+    if (gridWidth >= minSize && gridWidth <= maxSize && gridHeight >= minSize && gridHeight <= maxSize) {
+      this.constraintPainter.setGridSize(gridWidth, gridHeight);
+    }
+    if (isNaN(gridWidth) || isNaN(gridHeight) || !this.currentTileSet) {
       this.outputSizePreview.textContent = 'Output: ? × ? pixels';
       return;
     }
     
     // Formula: outputSize = tileSize + (gridSize - 1) × step, where step = 1 for overlap model
-    const outputSize = this.currentTileSize + (gridSize - 1);
-    this.outputSizePreview.textContent = `Output: ${outputSize} × ${outputSize} pixels`;
+    // and step = tileSize for the simple tiled model.
+    // Periodic output folds the overlap back onto the opposite edge, leaving gridSize × step.
+    const step = this.currentTileSize - this.currentTileSet.getOverlap();
+    const toPixels = (gridSize: number) => this.periodicOutputInput.checked
+      ? gridSize * step
+      : this.currentTileSize + (gridSize - 1) * step;
+    this.outputSizePreview.textContent = `Output: ${toPixels(gridWidth)} × ${toPixels(gridHeight)} pixels`;
+  }
+
+  /**
+   * Read and validate the output grid dimensions, alerting on bad input
+   */
+  private readGridSize(): { width: number; height: number } | null {
+    const { minSize, maxSize, maxCells } = CONFIG.grid;
+    const width = parseInt(this.outputWidthInput.value);
+    const height = parseInt(this.outputHeightInput.value);
+    if (isNaN(width) || width < minSize || width > maxSize) {
+      alert(`Please enter a valid grid width between ${minSize} and ${maxSize}`);
+      return null;
+    }
+    if (isNaN(height) || height < minSize || height > maxSize) {
+      alert(`Please enter a valid grid height between ${minSize} and ${maxSize}`);
+      return null;
+    }
+    if (width * height > maxCells) {
+      alert(`Grid ${width} × ${height} has too many cells (max ${maxCells}). Please reduce width or height.`);
+      return null;
+    }
+    return { width, height };
+  }
+
+  /**
+   * Read the seed field; empty means pick a random one, which is reported with the result
+   */
+  private readSeed(): number | null {
+    const seedValue = this.seedInput.value.trim();
+    const seed = seedValue === '' ? randomSeed() : parseInt(seedValue);
+    if (isNaN(seed) || seed < 0) {
+      alert('Please enter a non-negative integer seed, or leave it empty for a random one');
+      return null;
+    }
+    return seed;
+  }
+
+  /**
+   * Weighting, cell order and backjumping settings shared by single runs and the world
+   */
+  private readSearchOptions(): Pick<WorkerGenerateOptions, 'weighting' | 'cellSelection' | 'backjumping'> {
+    return {
+      weighting: this.weightingSelect.value as WeightingStrategy,
+      cellSelection: this.cellSelectionSelect.value as CellSelectionName,
+      backjumping: this.backjumpingInput.checked
+    };
+  }
+
+  /**
+   * Scale up a canvas for visibility, fitting both dimensions so wide strips stay readable
+   */
+  private scaleForDisplay(canvas: HTMLCanvasElement) {
+    const scale = Math.min(
+      CONFIG.canvas.maxWidth / canvas.width,
+      CONFIG.canvas.maxSize / canvas.height
+    );
+    canvas.style.width = `${canvas.width * scale}px`;
+    canvas.style.height = `${canvas.height * scale}px`;
+    canvas.style.imageRendering = 'pixelated';
   }
 
   private async generateTiles() {
@@ -94,6 +309,12 @@ export class AppController {
       // Dereference current tiles
       this.currentTiles = [];
       this.currentTileSet = null;
+      this.showDiagnostics(null);
+      this.adjacencyViewer.setTileSet(null);
+      this.constraintPainter.setTileSet(null);
+      this.borderEditor.setTileSet(null);
+      this.worldViewport.setWorld(null);
+      this.stepDebugger.start(null);
       // --- End cleanup ---
 
       const selectedSample = this.sampleList.getSelected();
@@ -108,11 +329,34 @@ export class AppController {
         return;
       }
 
+      const symmetry = parseInt(this.symmetrySelect.value) as Symmetry;
+      if (!SYMMETRY_OPTIONS.includes(symmetry)) {
+        alert('Please choose a symmetry of 1, 2, 4 or 8');
+        return;
+      }
+
+      const periodicInput = this.periodicInputInput.checked;
+      this.previewCanvas.setPeriodicInput(periodicInput);
+
       this.generateBtn.disabled = true;
       this.generateBtn.textContent = 'Generating...';
 
-      const { tiles: tileElements, frequencies } = await this.tileExtractor.generate(
-        selectedSample,
+      const image = await this.tileExtractor.load(selectedSample);
+      const extraction = { symmetry, periodicInput };
+      const showProgress = (stage: ExtractionStage, done: number, total: number) => {
+        this.generateBtn.textContent = stage === 'patterns'
+          ? `Extracting... ${Math.round((done / Math.max(1, total)) * 100)}%`
+          : stage === 'rules' ? 'Matching overlaps...' : 'Checking rules...';
+      };
+      const { result, rules, analysis } = await this.extractionClient.extract(image, tileSize, extraction, showProgress);
+      const { patterns: tiles, frequencies, sample } = result;
+
+      if (tiles.length === 0) {
+        throw new Error('No tiles were generated');
+      }
+
+      this.tileExtractor.showPatterns(
+        result,
         tileSize,
         this.previewCanvas.setHighlight.bind(this.previewCanvas),
         () => this.previewCanvas.setHighlight(null),
@@ -120,34 +364,22 @@ export class AppController {
         () => this.clearAdjacencies()
       );
 
-      if (tileElements.length === 0) {
-        throw new Error('No tiles were generated');
-      }
-
-      const tiles: Tile[] = [];
-      for (let id = 0; id < tileElements.length; id++) {
-        const canvas = tileElements[id];
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          console.error(`Failed to get 2D context for tile ${id}`);
-          continue;
-        }
-        tiles.push({
-          id,
-          canvas,
-          pixelData: ctx.getImageData(0, 0, tileSize, tileSize)
-        });
-      }
-
-      if (tiles.length === 0) {
-        throw new Error('Failed to create tiles');
-      }
-
-      // Pass frequencies to TileSet for frequency-weighted WFC
-      const tileSet = new TileSet(tiles, frequencies);
+      // Pass frequencies to TileSet for frequency-weighted WFC; the worker already matched and checked the overlaps
+      const tileSet = new TileSet(tiles, frequencies, {
+        rules,
+        source: { name: this.sampleList.getSelectedName() ?? selectedSample, ...sample },
+        extraction
+      });
       this.currentTileSet = tileSet;
       this.currentTiles = tiles;
       this.currentTileSize = tileSize;
+      this.currentTileSetSource = tileSet.source?.name ?? selectedSample;
+      this.showDiagnostics(analysis);
+      this.adjacencyViewer.setTileSet(tileSet);
+      this.constraintPainter.setTileSet(tileSet);
+      this.borderEditor.setTileSet(tileSet, result.sampleEdges);
+      this.worldViewport.setWorld(null);
+      this.stepDebugger.start(null);
 
       // Enable WFC button now that we have tiles
       this.generateWfcBtn.disabled = false;
@@ -163,15 +395,135 @@ export class AppController {
     }
   }
 
+  /**
+   * Add user images to the sample list, reporting the ones that can't be used
+   */
+  private async importSamples(files: File[]) {
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const sample = await importSampleImage(file);
+        this.sampleList.addSample(sample.url, sample.name);
+      } catch (error) {
+        console.error('Error importing sample:', error);
+        errors.push(error instanceof Error ? error.message : `${file.name}: Unknown error`);
+      }
+    }
+    if (errors.length > 0) {
+      alert(`Failed to import image:\n${errors.join('\n')}`);
+    }
+  }
+
+  /**
+   * Load a simple tiled model (definition + images) picked by the user
+   */
+  private async loadTileset() {
+    const files = Array.from(this.tilesetFileInput.files ?? []);
+    if (files.length === 0) {
+      return;
+    }
+
+    try {
+      const { tileSet, tileNames } = await loadSimpleTiledModel(files);
+      const source = files.find(file => /\.(json|xml)$/i.test(file.name))?.name ?? 'tileset';
+      this.useTileSet(tileSet, tileNames, source);
+    } catch (error) {
+      console.error('Error loading tileset:', error);
+      alert(`Failed to load tileset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      // Allow picking the same files again
+      this.tilesetFileInput.value = '';
+    }
+  }
+
+  /**
+   * Load a tileset saved with "Save Tileset"
+   */
+  private async importTileSet() {
+    const file = this.tileSetImportInput.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      let value: unknown;
+      try {
+        value = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Tileset file is not valid JSON');
+      }
+      const tileSet = TileSet.fromJSON(value);
+      this.useTileSet(tileSet, [], tileSet.source?.name ?? file.name);
+    } catch (error) {
+      console.error('Error importing tileset:', error);
+      alert(`Failed to import tileset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.tileSetImportInput.value = '';
+    }
+  }
+
+  /**
+   * Download the current tileset in the portable JSON format
+   */
+  private exportTileSet() {
+    if (!this.currentTileSet) {
+      alert('Please generate tiles first');
+      return;
+    }
+    const name = this.currentTileSetSource.split('/').pop()?.replace(/\.[^.]+$/, '') || 'tileset';
+    const blob = new Blob([JSON.stringify(this.currentTileSet)], { type: 'application/json' });
+    downloadBlob(blob, `${name}.tileset.json`);
+  }
+
+  /**
+   * Make a tileset that didn't come from the sample extractor current and show it in the gallery
+   */
+  private useTileSet(tileSet: TileSet, tileNames: string[], source: string) {
+    const tiles = tileSet.getTiles();
+    if (tiles.length === 0) {
+      throw new Error('No tiles were defined');
+    }
+
+    this.clearAdjacencies();
+    this.previewCanvas.setHighlight(null);
+    this.tileExtractor.showTiles(
+      tiles,
+      tileNames,
+      (tileIndex: number) => this.showTileAdjacencies(tileIndex),
+      () => this.clearAdjacencies()
+    );
+
+    this.currentTileSet = tileSet;
+    this.currentTiles = tiles;
+    this.currentTileSize = tiles[0].pixelData.width;
+    this.currentTileSetSource = source;
+    this.showDiagnostics(analyzeTileSet(tileSet));
+    this.adjacencyViewer.setTileSet(tileSet);
+    this.constraintPainter.setTileSet(tileSet);
+    this.borderEditor.setTileSet(tileSet);
+    this.worldViewport.setWorld(null);
+    this.stepDebugger.start(null);
+
+    this.generateWfcBtn.disabled = false;
+    this.updateOutputSizePreview();
+  }
+
   private async generateWFC() {
     if (this.isGenerating) {
       return;
     }
 
-    if (!this.currentTileSet) {
+    const tileSet = this.currentTileSet;
+    if (!tileSet) {
       alert('Please generate tiles first');
       return;
     }
+    const tileSetSource = this.currentTileSetSource;
+
+    const warnings = this.tileSetAnalysis?.warnings ?? [];
+    if (warnings.length > 0 && !confirm(`This run will probably fail:\n${warnings.join('\n')}\n\nGenerate anyway?`)) {
+      return;
+    }
 
     // --- DOM and memory cleanup ---
     // Remove all children from wfcOutputDiv
@@ -182,66 +534,84 @@ export class AppController {
       }
       this.wfcOutputDiv.removeChild(this.wfcOutputDiv.firstChild);
     }
+    this.resultExporter.setResult(null);
     // --- End cleanup ---
 
+    const controller = new AbortController();
+
     try {
       this.isGenerating = true;
+      this.generationController = controller;
       this.generateWfcBtn.disabled = true;
       this.generateWfcBtn.textContent = 'Generating...';
+      this.cancelWfcBtn.disabled = false;
 
-      const gridSize = parseInt(this.outputSizeInput.value);
-      if (isNaN(gridSize) || gridSize < 3 || gridSize > 50) {
-        alert('Please enter a valid grid size between 3 and 50');
+      const gridSize = this.readGridSize();
+      if (!gridSize) {
         return;
       }
+      const { width: gridWidth, height: gridHeight } = gridSize;
 
-      console.log(`\n=== Starting WFC Generation (${gridSize}x${gridSize}) ===`);
+      const seed = this.readSeed();
+      if (seed === null) {
+        return;
+      }
+
+      console.log(`\n=== Starting WFC Generation (${gridWidth}x${gridHeight}) ===`);
 
-      const generator = new WFCGenerator(this.currentTileSet, gridSize, gridSize);
+      console.log(`Seed: ${seed}`);
 
       // Prepare canvas for visualization
       let visualCanvas: HTMLCanvasElement | null = null;
       let visualCtx: CanvasRenderingContext2D | null = null;
 
-      // Generate with live visualization
-      const outputImage = await generator.generate(
-        (attempt, maxAttempts, iteration, maxIterations) => {
-          const progress = Math.round((iteration / maxIterations) * 100);
-          this.generateWfcBtn.textContent = `Generating... (Attempt ${attempt}/${maxAttempts}, ${progress}%)`;
+      // Generate in the worker with live visualization
+      const result = await this.workerClient.generate(
+        tileSet,
+        gridWidth,
+        gridHeight,
+        {
+          ...this.readSearchOptions(),
+          seed,
+          periodic: this.periodicOutputInput.checked,
+          constraints: this.constraintPainter.getConstraints(),
+          borders: this.borderEditor.getBorders(),
+          visualization: this.visualizationSelect.value as VisualizationMode
         },
-        (partialImage: ImageData) => {
-          // Create or reuse canvas for visualization
-          if (!visualCanvas) {
-            visualCanvas = document.createElement('canvas');
-            visualCanvas.width = partialImage.width;
-            visualCanvas.height = partialImage.height;
-            visualCtx = visualCanvas.getContext('2d');
+        {
+          onProgress: (iteration, maxIterations) => {
+            const progress = Math.round((iteration / maxIterations) * 100);
+            this.generateWfcBtn.textContent = `Generating... (${progress}%)`;
+          },
+          onVisualize: (partialImage: RGBAImage) => {
+            // Create or reuse canvas for visualization
+            if (!visualCanvas) {
+              visualCanvas = document.createElement('canvas');
+              visualCanvas.width = partialImage.width;
+              visualCanvas.height = partialImage.height;
+              visualCtx = visualCanvas.getContext('2d');
+
+              if (visualCtx) {
+                visualCtx.imageSmoothingEnabled = false;
+
+                this.scaleForDisplay(visualCanvas);
+
+                // Add to output immediately
+                this.wfcOutputDiv.innerHTML = '';
+                this.wfcOutputDiv.appendChild(visualCanvas);
+              }
+            }
 
+            // Update canvas with current state
             if (visualCtx) {
-              visualCtx.imageSmoothingEnabled = false;
-
-              // Scale up for visibility
-              const scale = CONFIG.canvas.maxSize / Math.max(partialImage.width, partialImage.height);
-              visualCanvas.style.width = `${partialImage.width * scale}px`;
-              visualCanvas.style.height = `${partialImage.height * scale}px`;
-              visualCanvas.style.imageRendering = 'pixelated';
-
-              // Add to output immediately
-              this.wfcOutputDiv.innerHTML = '';
-              this.wfcOutputDiv.appendChild(visualCanvas);
+              visualCtx.putImageData(toImageData(partialImage), 0, 0);
             }
           }
-
-          // Update canvas with current state
-          if (visualCtx) {
-            visualCtx.putImageData(partialImage, 0, 0);
-          }
-        }
+        },
+        controller.signal
       );
 
-      if (!outputImage) {
-        throw new Error('WFC generation failed');
-      }
+      const outputImage = result.imageData;
 
       // Display the result
       this.wfcOutputDiv.innerHTML = '';
@@ -255,38 +625,174 @@ export class AppController {
       }
 
       ctx.imageSmoothingEnabled = false;
-      ctx.putImageData(outputImage, 0, 0);
+      ctx.putImageData(toImageData(outputImage), 0, 0);
 
-      // Scale up for visibility
-      const scale = CONFIG.canvas.maxSize / Math.max(outputImage.width, outputImage.height);
-      outputCanvas.style.width = `${outputImage.width * scale}px`;
-      outputCanvas.style.height = `${outputImage.height * scale}px`;
-      outputCanvas.style.imageRendering = 'pixelated';
+      this.scaleForDisplay(outputCanvas);
 
       this.wfcOutputDiv.appendChild(outputCanvas);
 
+      const seedInfo = document.createElement('div');
+      seedInfo.className = 'wfc-seed-info';
+      seedInfo.textContent = `Seed: ${result.seed}`;
+      this.wfcOutputDiv.appendChild(seedInfo);
+
+      this.wfcOutputDiv.appendChild(this.createStatsPanel(result.stats));
+      this.resultExporter.setResult(result, tileSet, tileSetSource);
+
       console.log('=== WFC Generation Complete ===\n');
     } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('=== WFC Generation Cancelled ===\n');
+        const cancelInfo = document.createElement('div');
+        cancelInfo.className = 'wfc-seed-info';
+        cancelInfo.textContent = 'Generation cancelled';
+        this.wfcOutputDiv.appendChild(cancelInfo);
+        return;
+      }
       console.error('Error in WFC generation:', error);
       alert(`WFC generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       this.isGenerating = false;
+      this.generationController = null;
+      this.cancelWfcBtn.disabled = true;
       this.generateWfcBtn.disabled = false;
       this.generateWfcBtn.textContent = 'Generate WFC';
     }
   }
 
-  private showTileAdjacencies(tileIndex: number) {
-    if (!this.currentTileSet || !this.currentTiles[tileIndex]) {
+  /**
+   * Open the step debugger on a fresh run with the current settings. It runs on the
+   * main thread, which is fine since it only advances a few steps per frame.
+   */
+  private debugWFC() {
+    const tileSet = this.currentTileSet;
+    if (!tileSet) {
+      alert('Please generate tiles first');
+      return;
+    }
+
+    const gridSize = this.readGridSize();
+    if (!gridSize) {
+      return;
+    }
+    const seed = this.readSeed();
+    if (seed === null) {
+      return;
+    }
+
+    const generator = new WFCGenerator(tileSet, gridSize.width, gridSize.height, {
+      ...this.readSearchOptions(),
+      seed,
+      periodic: this.periodicOutputInput.checked,
+      constraints: this.constraintPainter.getConstraints(),
+      borders: this.borderEditor.getBorders(),
+      visualization: this.visualizationSelect.value as VisualizationMode
+    });
+    this.stepDebugger.start(generator, tileSet, gridSize.width, gridSize.height);
+  }
+
+  /**
+   * Summarize the analyzer's findings under the gallery and flag the tiles involved
+   */
+  private showDiagnostics(analysis: TileSetAnalysis | null) {
+    this.tileSetAnalysis = analysis;
+    this.diagnosticsDiv.innerHTML = '';
+    if (!analysis) return;
+
+    this.tileExtractor.markProblemTiles(analysis.problems);
+
+    const { deadEnds, asymmetricRules, unreachable, viable, components, problems } = analysis;
+    const tileCount = this.currentTiles.length;
+    const findings: string[] = [];
+    if (deadEnds.size > 0) findings.push(`${deadEnds.size} dead-end tiles`);
+    if (asymmetricRules.length > 0) findings.push(`${asymmetricRules.length} one-sided rules`);
+    if (unreachable.length > 0) findings.push(`${unreachable.length} unreachable tiles`);
+    if (viable.length < tileCount) findings.push(`${tileCount - viable.length} tiles only fit near borders`);
+    if (components.length > 1) {
+      findings.push(`${components.length} disconnected groups (largest ${components[0].length} tiles)`);
+    }
+
+    const summary = document.createElement('div');
+    summary.textContent = findings.length > 0
+      ? `Diagnostics: ${findings.join(', ')}. ${problems.size} flagged tiles are outlined; hover one for details.`
+      : 'Diagnostics: no problems found';
+    this.diagnosticsDiv.appendChild(summary);
+
+    for (const warning of analysis.warnings) {
+      const line = document.createElement('div');
+      line.className = 'diagnostics-warning';
+      line.textContent = `⚠ ${warning}`;
+      this.diagnosticsDiv.appendChild(line);
+    }
+  }
+
+  /**
+   * Summary of a run's search statistics and phase timings, for tuning samples and tile sizes
+   */
+  private createStatsPanel(stats: WFCStats): HTMLElement {
+    const ms = (value: number) => `${value.toFixed(1)} ms`;
+    const { timings } = stats;
+    const rows: Array<[string, string]> = [
+      ['Decisions', `${stats.decisions}`],
+      ['Contradictions', `${stats.contradictions}`],
+      ['Backtracks', `${stats.backtracks}`],
+      ['Max rollback depth', `${stats.maxRollbackDepth}`],
+      ['Propagation steps', `${stats.propagationSteps}`],
+      ['Initialization', ms(timings.initialization)],
+      ['Cell selection', ms(timings.selection)],
+      ['Collapse + propagation', ms(timings.propagation)],
+      ['Backtracking', ms(timings.backtracking)],
+      ['Rendering', ms(timings.rendering)],
+      ['Total', ms(timings.total)]
+    ];
+
+    const panel = document.createElement('dl');
+    panel.className = 'wfc-stats';
+    for (const [label, value] of rows) {
+      const term = document.createElement('dt');
+      term.textContent = label;
+      const detail = document.createElement('dd');
+      detail.textContent = value;
+      panel.append(term, detail);
+    }
+    return panel;
+  }
+
+  /**
+   * Open an unbounded chunked world with the current tiles and settings in the viewport
+   */
+  private exploreWorld() {
+    if (!this.currentTileSet) {
+      alert('Please generate tiles first');
       return;
     }
-    const adjacencies = this.currentTileSet.neighbors.get(tileIndex);
-    if (!adjacencies) {
+
+    const { minChunkSize, maxChunkSize } = CONFIG.world;
+    const chunkSize = parseInt(this.chunkSizeInput.value);
+    if (isNaN(chunkSize) || chunkSize < minChunkSize || chunkSize > maxChunkSize) {
+      alert(`Please enter a chunk size between ${minChunkSize} and ${maxChunkSize}`);
       return;
     }
-    // Get frequency for this tile
-    const freq = this.currentTileSet.getTileFrequencies().get(tileIndex) || 0;
-    this.adjacencyViewer.show(tileIndex, adjacencies, this.currentTiles, freq);
+
+    const seed = this.readSeed();
+    if (seed === null) {
+      return;
+    }
+
+    this.worldWorkerClient ??= new WFCWorkerClient();
+    const client = this.worldWorkerClient;
+    const world = new ChunkedWorld(this.currentTileSet, {
+      seed,
+      chunkSize,
+      generation: this.readSearchOptions(),
+      runner: (tileSet, gridWidth, gridHeight, options, signal) =>
+        client.generate(tileSet, gridWidth, gridHeight, options, {}, signal)
+    });
+    this.worldViewport.setWorld(world);
+  }
+
+  private showTileAdjacencies(tileIndex: number) {
+    this.adjacencyViewer.show(tileIndex);
   }
 
   private clearAdjacencies() {
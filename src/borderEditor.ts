@@ -0,0 +1,202 @@
+import { Tile, TileSet } from './core/tileSet';
+import { BORDER_EDGES, BorderEdge } from './core/border';
+import { BorderConstraints } from './core/wfcGenerator';
+import { imageToCanvas } from './canvasUtils';
+
+type BorderRowName = BorderEdge | 'interior';
+
+/** Which tiles a row uses: none, the sample's matching edge (or, for the interior, the tiles on constrained edges), or hand-picked ones */
+type BorderMode = 'off' | 'sample' | 'picked';
+
+interface BorderRow {
+  select: HTMLSelectElement;
+  addBtn: HTMLButtonElement;
+  chips: HTMLDivElement;
+  picked: number[];
+}
+
+const ROW_LABELS: Record<BorderRowName, string> = {
+  top: 'Top',
+  bottom: 'Bottom',
+  left: 'Left',
+  right: 'Right',
+  interior: 'Interior'
+};
+
+/**
+ * Restricts the output's edges to chosen tiles (e.g. ground along the bottom) and keeps
+ * tiles out of the interior. Tiles come from the sample's matching edge or are picked
+ * by clicking them in the gallery and adding them to a row.
+ */
+export class BorderEditor {
+  private container: HTMLElement;
+  private rows = new Map<BorderRowName, BorderRow>();
+  private tilesById = new Map<number, Tile>();
+  private sampleEdges: Record<BorderEdge, number[]> | null = null;
+  private selectedTile: number | null = null;
+
+  constructor(containerId: string) {
+    const el = document.getElementById(containerId);
+    if (!el) {
+      throw new Error(`Border editor container '${containerId}' not found`);
+    }
+    this.container = el;
+
+    for (const name of [...BORDER_EDGES, 'interior'] as const) {
+      this.rows.set(name, this.createRow(name));
+    }
+
+    const clearBtn = document.createElement('button');
+    clearBtn.type = 'button';
+    clearBtn.className = 'secondary';
+    clearBtn.textContent = 'Clear borders';
+    clearBtn.addEventListener('click', () => this.clear());
+    this.container.appendChild(clearBtn);
+
+    this.setTileSet(null);
+  }
+
+  /**
+   * Use a new tile set; picks refer to old tile IDs, so they are dropped.
+   * Sample edges are only known for tiles extracted in this session.
+   */
+  setTileSet(tileSet: TileSet | null, sampleEdges: Record<BorderEdge, number[]> | null = null): void {
+    this.tilesById = new Map(tileSet?.getTiles().map(tile => [tile.id, tile]) ?? []);
+    this.sampleEdges = sampleEdges;
+    this.selectedTile = null;
+    for (const [name, row] of this.rows) {
+      const sampleOption = row.select.querySelector<HTMLOptionElement>('option[value="sample"]');
+      if (sampleOption && name !== 'interior') {
+        const count = sampleEdges?.[name].length;
+        sampleOption.disabled = count === undefined;
+        sampleOption.textContent = count === undefined ? 'Sample edge' : `Sample edge (${count} tiles)`;
+      }
+    }
+    this.clear();
+  }
+
+  /**
+   * Remember the tile clicked in the gallery, so it can be added to a row
+   */
+  setSelectedTile(tileId: number): void {
+    this.selectedTile = tileId;
+    this.updateAddButtons();
+  }
+
+  /**
+   * Chosen borders in the generator's format, or undefined when none are set
+   */
+  getBorders(): BorderConstraints | undefined {
+    const borders: BorderConstraints = {};
+    const edgeTiles = new Set<number>();
+    for (const edge of BORDER_EDGES) {
+      const tileIds = this.rowTiles(edge);
+      if (!tileIds) continue;
+      borders[edge] = tileIds;
+      tileIds.forEach(id => edgeTiles.add(id));
+    }
+
+    const interior = this.rows.get('interior')!;
+    const mode = interior.select.value as BorderMode;
+    if (mode === 'sample' && edgeTiles.size > 0) {
+      borders.interiorBans = Array.from(edgeTiles);
+    } else if (mode === 'picked' && interior.picked.length > 0) {
+      borders.interiorBans = interior.picked.slice();
+    }
+
+    return Object.keys(borders).length > 0 ? borders : undefined;
+  }
+
+  clear(): void {
+    for (const row of this.rows.values()) {
+      row.select.value = 'off';
+      row.picked = [];
+    }
+    this.updateAddButtons();
+    this.renderChips();
+  }
+
+  private rowTiles(edge: BorderEdge): number[] | null {
+    const row = this.rows.get(edge)!;
+    switch (row.select.value as BorderMode) {
+      case 'sample':
+        return this.sampleEdges ? this.sampleEdges[edge].slice() : null;
+      case 'picked':
+        return row.picked.length > 0 ? row.picked.slice() : null;
+      default:
+        return null;
+    }
+  }
+
+  private createRow(name: BorderRowName): BorderRow {
+    const rowDiv = document.createElement('div');
+    rowDiv.className = 'border-row';
+
+    const label = document.createElement('label');
+    label.textContent = `${ROW_LABELS[name]}: `;
+    const select = document.createElement('select');
+    select.setAttribute('aria-label', name === 'interior'
+      ? 'Tiles kept out of cells that are not on a constrained edge'
+      : `Tiles allowed along the ${name} edge of the output`);
+    const options: Array<[BorderMode, string]> = name === 'interior'
+      ? [['off', 'No bans'], ['sample', 'Ban the edge tiles'], ['picked', 'Ban picked tiles']]
+      : [['off', 'Any tile'], ['sample', 'Sample edge'], ['picked', 'Picked tiles']];
+    for (const [value, text] of options) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = text;
+      select.appendChild(option);
+    }
+    label.appendChild(select);
+
+    const addBtn = document.createElement('button');
+    addBtn.type = 'button';
+    addBtn.className = 'secondary';
+    addBtn.addEventListener('click', () => {
+      const row = this.rows.get(name)!;
+      if (this.selectedTile === null || row.picked.includes(this.selectedTile)) return;
+      row.picked.push(this.selectedTile);
+      row.select.value = 'picked';
+      this.renderChips();
+    });
+
+    const chips = document.createElement('div');
+    chips.className = 'border-tiles';
+
+    rowDiv.appendChild(label);
+    rowDiv.appendChild(addBtn);
+    rowDiv.appendChild(chips);
+    this.container.appendChild(rowDiv);
+
+    return { select, addBtn, chips, picked: [] };
+  }
+
+  private updateAddButtons(): void {
+    for (const row of this.rows.values()) {
+      row.addBtn.disabled = this.selectedTile === null;
+      row.addBtn.textContent = this.selectedTile === null
+        ? 'Click a tile in the gallery to pick it'
+        : `Add tile ${this.selectedTile}`;
+    }
+  }
+
+  /**
+   * Show each row's picked tiles; clicking one removes it
+   */
+  private renderChips(): void {
+    for (const row of this.rows.values()) {
+      row.chips.innerHTML = '';
+      for (const tileId of row.picked) {
+        const tile = this.tilesById.get(tileId);
+        if (!tile) continue;
+        const canvas = imageToCanvas(tile.pixelData);
+        canvas.title = `Tile ${tileId} (click to remove)`;
+        canvas.addEventListener('click', () => {
+          row.picked = row.picked.filter(id => id !== tileId);
+          this.renderChips();
+        });
+        row.chips.appendChild(canvas);
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { RGBAImage } from './core/image';
+
+/**
+ * Convert a core RGBA buffer into DOM ImageData
+ */
+export function toImageData(image: RGBAImage): ImageData {
+  return new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+}
+
+/**
+ * Draw an RGBA buffer onto a new canvas of the same size
+ */
+export function imageToCanvas(image: RGBAImage): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.putImageData(toImageData(image), 0, 0);
+  return canvas;
+}
+
+/**
+ * Read all pixels of a loaded image element in one go
+ */
+export function readImagePixels(img: HTMLImageElement): RGBAImage {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Encode an RGBA buffer as a PNG file
+ */
+export function imageToPngBlob(image: RGBAImage): Promise<Blob> {
+  const canvas = imageToCanvas(image);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode PNG'));
+      }
+    }, 'image/png');
+  });
+}
+
+/**
+ * Save a blob through the browser's download prompt
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -8,21 +8,60 @@ export const CONFIG = {
     preview: 'sample-preview',
     tilesContainer: 'generated-tiles',
     tilesCount: 'tiles-count',
+    diagnostics: 'tileset-diagnostics',
     generateBtn: 'generate-tiles',
+    tilesetFileInput: 'tileset-file',
+    tileSetImportInput: 'tileset-import',
+    exportTileSetBtn: 'export-tileset',
+    sampleFileInput: 'sample-file',
+    samplePanel: 'sample-panel',
     tileSizeInput: 'tile-size',
+    symmetrySelect: 'symmetry',
+    periodicInputInput: 'periodic-input',
     adjacencyViewer: 'adjacency-viewer',
     wfcCanvas: 'wfc-canvas',
     generateWfcBtn: 'generate-wfc',
-    outputSizeInput: 'output-size',
+    cancelWfcBtn: 'cancel-wfc',
+    debugWfcBtn: 'debug-wfc',
+    stepDebugger: 'step-debugger',
+    outputWidthInput: 'output-width',
+    outputHeightInput: 'output-height',
+    seedInput: 'wfc-seed',
+    periodicOutputInput: 'periodic-output',
+    weightingSelect: 'weighting',
+    cellSelectionSelect: 'cell-selection',
+    backjumpingInput: 'backjumping',
+    visualizationSelect: 'visualization',
+    worldViewport: 'world-viewport',
+    exploreWorldBtn: 'explore-world',
+    chunkSizeInput: 'chunk-size',
+    resultExporter: 'wfc-export',
+    constraintPainter: 'constraint-painter',
+    borderEditor: 'border-editor',
     wfcOutput: 'wfc-output'
   },
 
   // UI Constants
   ui: {
     adjacencyPreviewSize: 48,
+    // The rule matrix is drawn only for tilesets up to this size
+    maxMatrixTiles: 64,
+    matrixCellSize: 8,
+    // The step debugger's cell inspector shows at most this many remaining tiles
+    maxInspectorTiles: 48,
+    inspectorTileSize: 24,
     samplePreviewSize: 200,
     maxSamplePreviewSize: 64,
-    tileScaleFactor: 16
+    tileScaleFactor: 16,
+    maxGalleryTileSize: 96,
+    // Extracted patterns beyond this many are left out of the gallery
+    maxGalleryTiles: 1024
+  },
+
+  // User-imported sample images
+  samples: {
+    maxFileBytes: 5 * 1024 * 1024,
+    maxDimension: 512
   },
 
   // Tile Generation
@@ -32,11 +71,35 @@ export const CONFIG = {
     maxSize: 20
   },
 
+  // Output Grid (in tiles)
+  grid: {
+    minSize: 3,
+    maxSize: 200,
+    maxCells: 4096
+  },
+
+  // Infinite world (chunk sizes in cells, viewport in pixels)
+  world: {
+    defaultChunkSize: 16,
+    minChunkSize: 4,
+    maxChunkSize: 48,
+    viewportWidth: 800,
+    viewportHeight: 400,
+    // Chunks are zoomed to roughly this many screen pixels
+    targetChunkSize: 128
+  },
+
+  // Export Settings
+  export: {
+    maxScale: 16
+  },
+
   // Canvas Settings
   canvas: {
     defaultWidth: 640,
     defaultHeight: 640,
-    maxSize: 400
+    maxSize: 400,
+    maxWidth: 1200
   }
 } as const;
 
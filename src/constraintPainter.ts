@@ -0,0 +1,246 @@
+import { CONFIG } from './config';
+import { TileSet } from './core/tileSet';
+import { RGBAColor } from './core/image';
+import { CellConstraint } from './core/wfcGenerator';
+
+/**
+ * What a click paints: a pinned tile, or "any pattern whose anchor pixel has this color"
+ */
+export type ConstraintBrush =
+  | { type: 'tile'; tileId: number }
+  | { type: 'color'; color: RGBAColor };
+
+/**
+ * Lets the user paint cell constraints onto the empty output grid before generating.
+ * Left button paints with the current brush, right button or Shift erases.
+ */
+export class ConstraintPainter {
+  private container: HTMLElement;
+  private palette: HTMLDivElement;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private tileSet: TileSet | null = null;
+  private gridWidth = 0;
+  private gridHeight = 0;
+  private brush: ConstraintBrush | null = null;
+  private painted = new Map<number, ConstraintBrush>();
+  private painting: 'paint' | 'erase' | null = null;
+
+  constructor(containerId: string) {
+    const el = document.getElementById(containerId);
+    if (!el) {
+      throw new Error(`Constraint painter container '${containerId}' not found`);
+    }
+    this.container = el;
+
+    this.palette = document.createElement('div');
+    this.palette.className = 'constraint-palette';
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'constraint-canvas';
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2D rendering context');
+    this.ctx = ctx;
+
+    const clearBtn = document.createElement('button');
+    clearBtn.type = 'button';
+    clearBtn.className = 'secondary';
+    clearBtn.textContent = 'Clear constraints';
+    clearBtn.addEventListener('click', () => this.clear());
+
+    this.container.appendChild(this.palette);
+    this.container.appendChild(this.canvas);
+    this.container.appendChild(clearBtn);
+
+    this.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+    this.canvas.addEventListener('mousedown', (e) => {
+      this.painting = e.button === 2 || e.shiftKey ? 'erase' : 'paint';
+      this.paintAt(e);
+    });
+    this.canvas.addEventListener('mousemove', (e) => {
+      if (this.painting) this.paintAt(e);
+    });
+    window.addEventListener('mouseup', () => {
+      this.painting = null;
+    });
+
+    this.buildPalette();
+  }
+
+  /**
+   * Use a new tile set; old constraints refer to old tile IDs, so they are dropped
+   */
+  setTileSet(tileSet: TileSet | null): void {
+    this.tileSet = tileSet;
+    this.painted.clear();
+    this.brush = null;
+    this.buildPalette();
+    this.draw();
+  }
+
+  /**
+   * Resize the grid, keeping constraints that still fit
+   */
+  setGridSize(width: number, height: number): void {
+    if (width === this.gridWidth && height === this.gridHeight) return;
+    const previous = this.painted;
+    const previousWidth = this.gridWidth;
+    this.painted = new Map();
+    for (const [index, brush] of previous) {
+      const x = index % previousWidth;
+      const y = Math.floor(index / previousWidth);
+      if (x < width && y < height) {
+        this.painted.set(y * width + x, brush);
+      }
+    }
+    this.gridWidth = width;
+    this.gridHeight = height;
+    this.draw();
+  }
+
+  /**
+   * Select a tile (e.g. clicked in the gallery) as the brush
+   */
+  setTileBrush(tileId: number): void {
+    this.brush = { type: 'tile', tileId };
+    this.updatePaletteSelection();
+  }
+
+  /**
+   * Painted constraints in the generator's format
+   */
+  getConstraints(): CellConstraint[] {
+    const constraints: CellConstraint[] = [];
+    if (!this.tileSet) return constraints;
+    for (const [index, brush] of this.painted) {
+      constraints.push({
+        x: index % this.gridWidth,
+        y: Math.floor(index / this.gridWidth),
+        tileIds: brush.type === 'tile' ? [brush.tileId] : this.tileSet.getTilesWithAnchorColor(brush.color)
+      });
+    }
+    return constraints;
+  }
+
+  clear(): void {
+    this.painted.clear();
+    this.draw();
+  }
+
+  /**
+   * One swatch per distinct anchor color, plus a slot showing the selected tile brush
+   */
+  private buildPalette(): void {
+    this.palette.innerHTML = '';
+    if (!this.tileSet) {
+      this.palette.textContent = 'Generate or load tiles first';
+      return;
+    }
+
+    const colors = new Map<string, RGBAColor>();
+    for (const tile of this.tileSet.getTiles()) {
+      const [r, g, b, a] = tile.pixelData.data;
+      colors.set(`${r},${g},${b},${a}`, [r, g, b, a]);
+    }
+
+    for (const color of colors.values()) {
+      const swatch = document.createElement('button');
+      swatch.type = 'button';
+      swatch.className = 'constraint-swatch';
+      swatch.style.background = this.cssColor(color);
+      swatch.title = `Restrict to patterns anchored on rgba(${color.join(', ')})`;
+      swatch.addEventListener('click', () => {
+        this.brush = { type: 'color', color };
+        this.updatePaletteSelection();
+      });
+      swatch.dataset.color = color.join(',');
+      this.palette.appendChild(swatch);
+    }
+
+    const hint = document.createElement('span');
+    hint.className = 'constraint-hint';
+    this.palette.appendChild(hint);
+    this.updatePaletteSelection();
+  }
+
+  private updatePaletteSelection(): void {
+    const selectedColor = this.brush?.type === 'color' ? this.brush.color.join(',') : null;
+    this.palette.querySelectorAll<HTMLButtonElement>('.constraint-swatch').forEach(swatch => {
+      swatch.classList.toggle('selected', swatch.dataset.color === selectedColor);
+    });
+    const hint = this.palette.querySelector('.constraint-hint');
+    if (hint) {
+      hint.textContent = this.brush?.type === 'tile'
+        ? `Brush: tile ${this.brush.tileId}`
+        : this.brush ? 'Brush: color' : 'Pick a color, or click a tile in the gallery';
+    }
+  }
+
+  private paintAt(event: MouseEvent): void {
+    if (!this.tileSet) return;
+    const rect = this.canvas.getBoundingClientRect();
+    const x = Math.floor(((event.clientX - rect.left) / rect.width) * this.gridWidth);
+    const y = Math.floor(((event.clientY - rect.top) / rect.height) * this.gridHeight);
+    if (x < 0 || y < 0 || x >= this.gridWidth || y >= this.gridHeight) return;
+
+    const index = y * this.gridWidth + x;
+    if (this.painting === 'erase') {
+      this.painted.delete(index);
+    } else if (this.brush) {
+      this.painted.set(index, this.brush);
+    }
+    this.draw();
+  }
+
+  private draw(): void {
+    if (this.gridWidth === 0 || this.gridHeight === 0) return;
+    const { maxWidth, maxSize } = CONFIG.canvas;
+    const size = Math.max(4, Math.floor(Math.min(maxWidth / this.gridWidth, maxSize / this.gridHeight)));
+    this.canvas.width = Math.max(1, this.gridWidth * size);
+    this.canvas.height = Math.max(1, this.gridHeight * size);
+
+    const ctx = this.ctx;
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#808080';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    for (const [index, brush] of this.painted) {
+      const x = (index % this.gridWidth) * size;
+      const y = Math.floor(index / this.gridWidth) * size;
+      if (brush.type === 'color') {
+        ctx.fillStyle = this.cssColor(brush.color);
+        ctx.fillRect(x, y, size, size);
+        continue;
+      }
+      const tile = this.tileSet?.getTiles()[brush.tileId];
+      if (!tile) continue;
+      // Pinned tiles show their anchor color with a frame, so they read differently from color brushes
+      const [r, g, b, a] = tile.pixelData.data;
+      ctx.fillStyle = this.cssColor([r, g, b, a]);
+      ctx.fillRect(x, y, size, size);
+      ctx.strokeStyle = '#ff0000';
+      ctx.lineWidth = Math.max(1, size / 8);
+      ctx.strokeRect(x + 1, y + 1, size - 2, size - 2);
+    }
+
+    // Grid lines
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 1;
+    for (let gx = 0; gx <= this.gridWidth; gx++) {
+      ctx.beginPath();
+      ctx.moveTo(gx * size + 0.5, 0);
+      ctx.lineTo(gx * size + 0.5, this.canvas.height);
+      ctx.stroke();
+    }
+    for (let gy = 0; gy <= this.gridHeight; gy++) {
+      ctx.beginPath();
+      ctx.moveTo(0, gy * size + 0.5);
+      ctx.lineTo(this.canvas.width, gy * size + 0.5);
+      ctx.stroke();
+    }
+  }
+
+  private cssColor(color: RGBAColor): string {
+    return `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${color[3] / 255})`;
+  }
+}
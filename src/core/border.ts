@@ -0,0 +1,4 @@
+/** Sides of the output grid */
+export type BorderEdge = 'top' | 'bottom' | 'left' | 'right';
+
+export const BORDER_EDGES: readonly BorderEdge[] = ['top', 'bottom', 'left', 'right'];
@@ -0,0 +1,234 @@
+import { RandomFn } from './random';
+
+/**
+ * Read-only view of the grid that selection strategies decide on
+ */
+export interface SelectionView {
+  readonly width: number;
+  readonly height: number;
+  isCollapsed(x: number, y: number): boolean;
+  /** Shannon entropy of the cell's remaining tiles under the generator's weights */
+  entropy(x: number, y: number): number;
+}
+
+/**
+ * Decides which uncollapsed cell the generator collapses next
+ */
+export interface CellSelectionStrategy {
+  /** Next cell to collapse, or null when every cell is collapsed */
+  selectCell(view: SelectionView, random: RandomFn): { x: number; y: number } | null;
+  /** Called when a run starts over with every cell open */
+  reset?(): void;
+  /** Called when backtracking reopens a collapsed cell */
+  cellReopened?(x: number, y: number): void;
+}
+
+export type CellSelectionName =
+  | 'min-entropy'
+  | 'top-to-bottom'
+  | 'bottom-to-top'
+  | 'left-to-right'
+  | 'right-to-left'
+  | 'spiral'
+  | 'hilbert'
+  | 'random';
+
+export const CELL_SELECTION_NAMES: readonly CellSelectionName[] = [
+  'min-entropy',
+  'top-to-bottom',
+  'bottom-to-top',
+  'left-to-right',
+  'right-to-left',
+  'spiral',
+  'hilbert',
+  'random'
+];
+
+/**
+ * Lowest entropy first, ties broken by a little noise (the classic WFC heuristic)
+ */
+export class MinEntropySelection implements CellSelectionStrategy {
+  selectCell(view: SelectionView, random: RandomFn): { x: number; y: number } | null {
+    let minEntropy = Infinity;
+    let best: { x: number; y: number } | null = null;
+    for (let y = 0; y < view.height; y++) {
+      for (let x = 0; x < view.width; x++) {
+        if (view.isCollapsed(x, y)) continue;
+        const entropy = view.entropy(x, y) + random() * 0.001;
+        if (entropy < minEntropy) {
+          minEntropy = entropy;
+          best = { x, y };
+        }
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Uniformly random uncollapsed cell
+ */
+export class RandomSelection implements CellSelectionStrategy {
+  selectCell(view: SelectionView, random: RandomFn): { x: number; y: number } | null {
+    const open: number[] = [];
+    for (let y = 0; y < view.height; y++) {
+      for (let x = 0; x < view.width; x++) {
+        if (!view.isCollapsed(x, y)) open.push(y * view.width + x);
+      }
+    }
+    if (open.length === 0) return null;
+    const index = open[Math.floor(random() * open.length)];
+    return { x: index % view.width, y: Math.floor(index / view.width) };
+  }
+}
+
+/**
+ * Fixed visiting order: the first uncollapsed cell in the order wins.
+ * Every cell before the cursor is collapsed, so the scan resumes there; a reopened
+ * cell moves the cursor back to its place in the order.
+ */
+export class OrderedSelection implements CellSelectionStrategy {
+  private order: number[] = [];
+  // position[cellIndex] = where the cell comes in order
+  private position = new Int32Array(0);
+  private orderWidth = -1;
+  private orderHeight = -1;
+  private cursor = 0;
+
+  constructor(private buildOrder: (width: number, height: number) => number[]) {}
+
+  selectCell(view: SelectionView): { x: number; y: number } | null {
+    if (view.width !== this.orderWidth || view.height !== this.orderHeight) {
+      this.order = this.buildOrder(view.width, view.height);
+      this.position = new Int32Array(view.width * view.height);
+      this.order.forEach((index, i) => this.position[index] = i);
+      this.orderWidth = view.width;
+      this.orderHeight = view.height;
+      this.cursor = 0;
+    }
+    for (; this.cursor < this.order.length; this.cursor++) {
+      const index = this.order[this.cursor];
+      const x = index % view.width;
+      const y = Math.floor(index / view.width);
+      if (!view.isCollapsed(x, y)) return { x, y };
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.cursor = 0;
+  }
+
+  cellReopened(x: number, y: number): void {
+    if (x >= this.orderWidth || y >= this.orderHeight) return;
+    this.cursor = Math.min(this.cursor, this.position[y * this.orderWidth + x]);
+  }
+}
+
+/**
+ * Row by row (or column by column), in the given direction
+ */
+function scanlineOrder(direction: 'top-to-bottom' | 'bottom-to-top' | 'left-to-right' | 'right-to-left') {
+  return (width: number, height: number): number[] => {
+    const order: number[] = [];
+    if (direction === 'top-to-bottom' || direction === 'bottom-to-top') {
+      for (let i = 0; i < height; i++) {
+        const y = direction === 'top-to-bottom' ? i : height - 1 - i;
+        for (let x = 0; x < width; x++) order.push(y * width + x);
+      }
+    } else {
+      for (let i = 0; i < width; i++) {
+        const x = direction === 'left-to-right' ? i : width - 1 - i;
+        for (let y = 0; y < height; y++) order.push(y * width + x);
+      }
+    }
+    return order;
+  };
+}
+
+/**
+ * Square spiral outwards from the center, skipping positions outside the grid
+ */
+function spiralOrder(width: number, height: number): number[] {
+  const order: number[] = [];
+  const total = width * height;
+  let x = Math.floor((width - 1) / 2);
+  let y = Math.floor((height - 1) / 2);
+  let dx = 1;
+  let dy = 0;
+  let legLength = 1;
+
+  const visit = () => {
+    if (x >= 0 && y >= 0 && x < width && y < height) order.push(y * width + x);
+  };
+
+  visit();
+  while (order.length < total) {
+    // Two legs per length: right, down, left+1, up+1, ...
+    for (let leg = 0; leg < 2 && order.length < total; leg++) {
+      for (let step = 0; step < legLength && order.length < total; step++) {
+        x += dx;
+        y += dy;
+        visit();
+      }
+      [dx, dy] = [-dy, dx];
+    }
+    legLength++;
+  }
+  return order;
+}
+
+/**
+ * Hilbert curve over the smallest power-of-two square covering the grid, clipped to it
+ */
+function hilbertOrder(width: number, height: number): number[] {
+  let n = 1;
+  while (n < Math.max(width, height)) n *= 2;
+
+  const order: number[] = [];
+  for (let d = 0; d < n * n; d++) {
+    // Standard distance-to-coordinates conversion
+    let x = 0;
+    let y = 0;
+    let t = d;
+    for (let s = 1; s < n; s *= 2) {
+      const rx = 1 & (t >> 1);
+      const ry = 1 & (t ^ rx);
+      if (ry === 0) {
+        if (rx === 1) {
+          x = s - 1 - x;
+          y = s - 1 - y;
+        }
+        [x, y] = [y, x];
+      }
+      x += s * rx;
+      y += s * ry;
+      t >>= 2;
+    }
+    if (x < width && y < height) order.push(y * width + x);
+  }
+  return order;
+}
+
+/**
+ * Build one of the built-in strategies by name
+ */
+export function createCellSelection(name: CellSelectionName): CellSelectionStrategy {
+  switch (name) {
+    case 'min-entropy':
+      return new MinEntropySelection();
+    case 'random':
+      return new RandomSelection();
+    case 'spiral':
+      return new OrderedSelection(spiralOrder);
+    case 'hilbert':
+      return new OrderedSelection(hilbertOrder);
+    case 'top-to-bottom':
+    case 'bottom-to-top':
+    case 'left-to-right':
+    case 'right-to-left':
+      return new OrderedSelection(scanlineOrder(name));
+    default:
+      throw new Error(`Unknown cell selection strategy: ${String(name)}`);
+  }
+}
@@ -0,0 +1,289 @@
+import { TileSet, Tile } from './tileSet';
+import { RGBAImage, createImage } from './image';
+import { deriveSeed, randomSeed } from './random';
+import { CellConstraint, WFCGenerator, WFCOptions, WFCResult } from './wfcGenerator';
+import { CellSelectionName } from './cellSelection';
+
+/**
+ * Generator options a chunk run is started with. Kept serializable so runs can go to a worker.
+ */
+export type ChunkRunOptions = Omit<WFCOptions, 'createRandom' | 'cellSelection'> & {
+  cellSelection?: CellSelectionName;
+};
+
+/**
+ * Runs one finite generation; the default runs WFCGenerator on the calling thread
+ */
+export type ChunkRunner = (
+  tileSet: TileSet,
+  gridWidth: number,
+  gridHeight: number,
+  options: ChunkRunOptions,
+  signal?: AbortSignal
+) => Promise<WFCResult>;
+
+export interface ChunkedWorldOptions {
+  /** World seed; every chunk's seed is derived from it and the chunk coordinates */
+  seed?: number;
+  /** Cells per chunk side, defaults to 16 */
+  chunkSize?: number;
+  /** Passed to every chunk run, apart from seed, constraints, borders and periodic; an endless world has no edges */
+  generation?: Omit<ChunkRunOptions, 'seed' | 'constraints' | 'borders' | 'periodic'>;
+  runner?: ChunkRunner;
+}
+
+export interface Chunk {
+  cx: number;
+  cy: number;
+  /** Tile ID per cell, indexed [y][x] */
+  tileIds: number[][];
+  /** One step × step block per cell (the anchor corner of its tile) */
+  image: RGBAImage;
+  /** Bumped whenever a seam repair rewrites part of this chunk */
+  revision: number;
+}
+
+/** Margins tried around a chunk; beyond 1 they reopen the neighbors' edges. Only those up to half a chunk are used. */
+const SEAM_MARGINS = [1, 2, 4, 8];
+/** Seeds tried per margin before widening it */
+const SEEDS_PER_MARGIN = 2;
+
+/**
+ * Generation stage of a chunk, 0 to 3, from the parity of its coordinates
+ */
+function chunkStage(cx: number, cy: number): number {
+  return (cx & 1) + 2 * (cy & 1);
+}
+
+const defaultRunner: ChunkRunner = (tileSet, gridWidth, gridHeight, options, signal) =>
+  new WFCGenerator(tileSet, gridWidth, gridHeight, options).generate(undefined, undefined, signal);
+
+/**
+ * Unbounded world made of fixed-size chunks, generated on demand.
+ *
+ * A chunk is generated as a slightly larger grid whose outer ring is pinned to the
+ * cells of already-generated neighbors, so every seam satisfies the adjacency rules.
+ * Chunks come in four stages by the parity of their coordinates (even/even, odd/even,
+ * even/odd, odd/odd), and a chunk's neighbors from earlier stages are always generated
+ * before it. Neighbors from the same stage never touch, and later ones never exist yet,
+ * so the borders a chunk is pinned to do not depend on the order chunks are visited in.
+ * Together with seeds derived from the world seed and the coordinates, the world
+ * depends only on the seed and on which chunks have been generated.
+ *
+ * When the pinned borders leave no solution, the chunk is retried with a wider
+ * margin: the neighbors' cells inside it are regenerated too (a seam repair),
+ * with the ring around that area still pinned. Margins stay within half a chunk,
+ * so only neighbors' repairs can overlap, and they always happen in stage order.
+ *
+ * Calls to generateChunk must not overlap.
+ */
+export class ChunkedWorld {
+  readonly chunkSize: number;
+  private tileSet: TileSet;
+  private seed: number;
+  private generation: ChunkedWorldOptions['generation'];
+  private runner: ChunkRunner;
+  private chunks = new Map<string, Chunk>();
+  /** Chunks without a solution; their pinned borders never change, so neither would a retry */
+  private failures = new Map<string, Error>();
+  private tilesById: Map<number, Tile>;
+  private step: number;
+  private seamRepairs = 0;
+
+  constructor(tileSet: TileSet, options: ChunkedWorldOptions = {}) {
+    this.tileSet = tileSet;
+    this.seed = options.seed ?? randomSeed();
+    this.chunkSize = options.chunkSize ?? 16;
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize < 1) {
+      throw new Error('Chunk size must be a positive integer');
+    }
+    this.generation = options.generation ?? {};
+    this.runner = options.runner ?? defaultRunner;
+    this.tilesById = new Map(tileSet.getTiles().map(tile => [tile.id, tile]));
+    const tileSize = tileSet.getTiles()[0]?.pixelData.width || 1;
+    this.step = tileSize - tileSet.getOverlap();
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Side length of a chunk image in pixels
+   */
+  getChunkPixelSize(): number {
+    return this.chunkSize * this.step;
+  }
+
+  /**
+   * Number of chunk generations so far that had to rewrite a neighbor's edge
+   */
+  getSeamRepairCount(): number {
+    return this.seamRepairs;
+  }
+
+  getChunkCount(): number {
+    return this.chunks.size;
+  }
+
+  getChunk(cx: number, cy: number): Chunk | undefined {
+    return this.chunks.get(this.key(cx, cy));
+  }
+
+  /**
+   * Seed of a chunk's first try
+   */
+  chunkSeed(cx: number, cy: number): number {
+    return deriveSeed(this.seed, cx, cy);
+  }
+
+  /**
+   * Tile ID at world cell coordinates, if that chunk exists
+   */
+  getCell(wx: number, wy: number): number | undefined {
+    const size = this.chunkSize;
+    const cx = Math.floor(wx / size);
+    const cy = Math.floor(wy / size);
+    const chunk = this.chunks.get(this.key(cx, cy));
+    return chunk?.tileIds[wy - cy * size][wx - cx * size];
+  }
+
+  /**
+   * Return a chunk, generating it and its earlier-stage neighbors first if needed
+   */
+  async generateChunk(cx: number, cy: number, signal?: AbortSignal): Promise<Chunk> {
+    const existing = this.getChunk(cx, cy);
+    if (existing) return existing;
+    const failure = this.failures.get(this.key(cx, cy));
+    if (failure) throw failure;
+
+    const stage = chunkStage(cx, cy);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (chunkStage(cx + dx, cy + dy) >= stage) continue;
+        try {
+          await this.generateChunk(cx + dx, cy + dy, signal);
+        } catch (error) {
+          // A neighbor without a solution stays missing, whatever the order
+          if (signal?.aborted) throw error;
+        }
+      }
+    }
+
+    const size = this.chunkSize;
+    let lastError: unknown = null;
+
+    for (const margin of SEAM_MARGINS) {
+      if (2 * margin > size + 1) break;
+      const gridSize = size + 2 * margin;
+      const originX = cx * size - margin;
+      const originY = cy * size - margin;
+      const constraints = this.ringConstraints(originX, originY, gridSize);
+
+      for (let attempt = 0; attempt < SEEDS_PER_MARGIN; attempt++) {
+        const seed = margin === 1 && attempt === 0
+          ? this.chunkSeed(cx, cy)
+          : deriveSeed(this.seed, cx, cy, margin, attempt);
+
+        let result: WFCResult;
+        try {
+          result = await this.runner(this.tileSet, gridSize, gridSize, {
+            ...this.generation,
+            seed,
+            periodic: false,
+            constraints
+          }, signal);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          lastError = error;
+          continue;
+        }
+
+        return this.store(cx, cy, result.tileIds, originX, originY, margin);
+      }
+    }
+
+    const reason = lastError instanceof Error ? `: ${lastError.message}` : '';
+    const error = new Error(`Chunk (${cx}, ${cy}) could not be generated, even after reopening its seams${reason}`);
+    this.failures.set(this.key(cx, cy), error);
+    throw error;
+  }
+
+  /**
+   * Pin the outer ring of a region to whatever already exists there
+   */
+  private ringConstraints(originX: number, originY: number, gridSize: number): CellConstraint[] {
+    const constraints: CellConstraint[] = [];
+    for (let y = 0; y < gridSize; y++) {
+      for (let x = 0; x < gridSize; x++) {
+        const onRing = x === 0 || y === 0 || x === gridSize - 1 || y === gridSize - 1;
+        if (!onRing) continue;
+        const tileId = this.getCell(originX + x, originY + y);
+        if (tileId !== undefined) {
+          constraints.push({ x, y, tileIds: [tileId] });
+        }
+      }
+    }
+    return constraints;
+  }
+
+  /**
+   * Save the new chunk and write any regenerated neighbor cells back into their chunks
+   */
+  private store(cx: number, cy: number, region: number[][], originX: number, originY: number, margin: number): Chunk {
+    const size = this.chunkSize;
+    const tileIds: number[][] = [];
+    for (let y = 0; y < size; y++) {
+      tileIds.push(region[y + margin].slice(margin, margin + size));
+    }
+    const chunk: Chunk = { cx, cy, tileIds, image: this.renderCells(tileIds), revision: 0 };
+
+    if (margin > 1) {
+      const touched = new Set<Chunk>();
+      const gridSize = region.length;
+      for (let y = 1; y < gridSize - 1; y++) {
+        for (let x = 1; x < gridSize - 1; x++) {
+          const wx = originX + x;
+          const wy = originY + y;
+          const owner = this.chunks.get(this.key(Math.floor(wx / size), Math.floor(wy / size)));
+          if (!owner) continue;
+          owner.tileIds[wy - owner.cy * size][wx - owner.cx * size] = region[y][x];
+          touched.add(owner);
+        }
+      }
+      for (const owner of touched) {
+        owner.image = this.renderCells(owner.tileIds);
+        owner.revision++;
+      }
+      this.seamRepairs++;
+    }
+
+    this.chunks.set(this.key(cx, cy), chunk);
+    return chunk;
+  }
+
+  /**
+   * Draw each cell as the step × step top-left block of its tile
+   */
+  private renderCells(tileIds: number[][]): RGBAImage {
+    const step = this.step;
+    const image = createImage(tileIds[0].length * step, tileIds.length * step);
+    for (let y = 0; y < tileIds.length; y++) {
+      for (let x = 0; x < tileIds[y].length; x++) {
+        const tile = this.tilesById.get(tileIds[y][x]);
+        if (!tile) continue;
+        const { data, width } = tile.pixelData;
+        for (let ty = 0; ty < step; ty++) {
+          const source = ty * width * 4;
+          const target = ((y * step + ty) * image.width + x * step) * 4;
+          image.data.set(data.subarray(source, source + step * 4), target);
+        }
+      }
+    }
+    return image;
+  }
+
+  private key(cx: number, cy: number): string {
+    return `${cx},${cy}`;
+  }
+}
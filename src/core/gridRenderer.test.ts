@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { RGBAImage, createImage } from './image';
+import { extractPatterns } from './patternExtractor';
+import { TileSet } from './tileSet';
+import { WFCGenerator } from './wfcGenerator';
+import { GridRenderer } from './gridRenderer';
+import { VISUALIZATION_MODES } from './visualization';
+
+/**
+ * Small sample with enough structure for partial states to differ from frame to frame
+ */
+function stripes(): RGBAImage {
+  const image = createImage(12, 12);
+  for (let y = 0; y < 12; y++) {
+    for (let x = 0; x < 12; x++) {
+      const i = (y * 12 + x) * 4;
+      const on = (x + 2 * y) % 5 < 2 || x % 6 === 0;
+      image.data.set(on ? [200, 60, 40, 255] : [30, 40, 90, 255], i);
+    }
+  }
+  return image;
+}
+
+describe('GridRenderer patches', () => {
+  for (const periodic of [false, true]) {
+    it(`keep a copy in sync with the generator's image (${periodic ? 'periodic' : 'bounded'})`, async () => {
+      const { patterns, frequencies } = extractPatterns(stripes(), 3);
+      const tileSet = new TileSet(patterns, frequencies);
+      const generator = new WFCGenerator(tileSet, 16, 12, { seed: 3, periodic });
+      const copy = new GridRenderer(tileSet.getTiles(), 16, 12, 1, periodic);
+
+      let frame = 0;
+      let patchedCells = 0;
+      await generator.generate(undefined, (image) => {
+        frame++;
+        // Switch modes mid-run, and skip frames the way the worker throttles them
+        if (frame % 7 === 0) generator.setVisualization(VISUALIZATION_MODES[frame % VISUALIZATION_MODES.length]);
+        if (frame % 3 !== 0) return;
+        const patch = generator.takeRenderPatch()!;
+        patchedCells += patch.cells.length;
+        copy.applyPatch(patch);
+        expect(copy.image.data).toEqual(image.data);
+      });
+
+      expect(frame).toBeGreaterThan(6);
+      // Most frames only touch the cells around the latest decision
+      expect(patchedCells).toBeLessThan((frame / 3) * 16 * 12);
+    });
+  }
+});
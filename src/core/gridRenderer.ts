@@ -0,0 +1,186 @@
+import { Tile } from './tileSet';
+import { RGBAColor, RGBAImage, createImage } from './image';
+
+/**
+ * Pixels of some cells' owned squares, to replay one renderer's changes on another copy of the same grid
+ */
+export interface GridPatch {
+  /** Cell indices, y * gridWidth + x */
+  cells: Int32Array;
+  /** Each cell's owned square in turn, row-major RGBA */
+  pixels: Uint8ClampedArray;
+}
+
+/**
+ * Persistent output image that a generator draws into cell by cell.
+ *
+ * Each cell owns the step x step square at its anchor; in a bounded grid the last column
+ * and row also own the trailing tileSize - step pixels. Owned squares never overlap, so
+ * a cell can be redrawn on its own without repainting its neighbors. For a consistent
+ * grid this gives the same image as pasting every tile in full, in row-major order.
+ */
+export class GridRenderer {
+  readonly image: RGBAImage;
+  private gridWidth: number;
+  private gridHeight: number;
+  private tileSize: number;
+  private step: number;
+  private periodic: boolean;
+  // RGBA pixels of every tile, by tile index: tilePixels[(t * tileSize * tileSize + ty * tileSize + tx) * 4]
+  private tilePixels: Uint8ClampedArray;
+  private sums: Uint32Array;
+
+  constructor(tiles: readonly Tile[], gridWidth: number, gridHeight: number, step: number, periodic: boolean) {
+    this.gridWidth = gridWidth;
+    this.gridHeight = gridHeight;
+    this.tileSize = tiles[0]?.pixelData.width || 1;
+    this.step = step;
+    this.periodic = periodic;
+
+    const tileBytes = this.tileSize * this.tileSize * 4;
+    this.tilePixels = new Uint8ClampedArray(tiles.length * tileBytes);
+    tiles.forEach((tile, t) => this.tilePixels.set(tile.pixelData.data.subarray(0, tileBytes), t * tileBytes));
+    this.sums = new Uint32Array(tileBytes);
+
+    const trailing = periodic ? 0 : this.tileSize - step;
+    this.image = createImage(gridWidth * step + trailing, gridHeight * step + trailing);
+  }
+
+  /**
+   * Paint a cell's square with its share of a tile
+   */
+  drawTile(x: number, y: number, tile: number): void {
+    const [width, height] = this.ownedSize(x, y);
+    const data = this.image.data;
+    const tileBase = tile * this.tileSize * this.tileSize;
+    for (let ty = 0; ty < height; ty++) {
+      const target = this.pixelOffset(x * this.step, y * this.step + ty);
+      const source = (tileBase + ty * this.tileSize) * 4;
+      data.set(this.tilePixels.subarray(source, source + width * 4), target);
+    }
+  }
+
+  /**
+   * Paint a cell's square with a solid color
+   */
+  fill(x: number, y: number, color: RGBAColor): void {
+    const [width, height] = this.ownedSize(x, y);
+    const data = this.image.data;
+    for (let ty = 0; ty < height; ty++) {
+      let target = this.pixelOffset(x * this.step, y * this.step + ty);
+      for (let tx = 0; tx < width; tx++, target += 4) {
+        data[target] = color[0];
+        data[target + 1] = color[1];
+        data[target + 2] = color[2];
+        data[target + 3] = color[3];
+      }
+    }
+  }
+
+  /**
+   * Paint a cell's square with the per-pixel average of the tiles still possible in it
+   * @param wave - Generator wave; tile t is possible when wave[base + t] is set
+   */
+  drawAverage(x: number, y: number, wave: Uint8Array, base: number, tileCount: number): void {
+    const [width, height] = this.ownedSize(x, y);
+    const tileArea = this.tileSize * this.tileSize;
+    const sums = this.sums;
+    sums.fill(0);
+    let count = 0;
+    for (let t = 0; t < tileCount; t++) {
+      if (!wave[base + t]) continue;
+      count++;
+      for (let ty = 0; ty < height; ty++) {
+        const source = (t * tileArea + ty * this.tileSize) * 4;
+        const sum = ty * this.tileSize * 4;
+        for (let i = 0; i < width * 4; i++) {
+          sums[sum + i] += this.tilePixels[source + i];
+        }
+      }
+    }
+    if (count === 0) return;
+
+    const data = this.image.data;
+    for (let ty = 0; ty < height; ty++) {
+      const target = this.pixelOffset(x * this.step, y * this.step + ty);
+      const sum = ty * this.tileSize * 4;
+      for (let i = 0; i < width * 4; i++) {
+        data[target + i] = Math.round(sums[sum + i] / count);
+      }
+    }
+  }
+
+  /**
+   * Blend a color over a cell's step x step square, alpha between 0 and 1
+   */
+  tint(x: number, y: number, color: RGBAColor, alpha: number): void {
+    const data = this.image.data;
+    for (let ty = 0; ty < this.step; ty++) {
+      let target = this.pixelOffset(x * this.step, y * this.step + ty);
+      for (let tx = 0; tx < this.step; tx++, target += 4) {
+        for (let c = 0; c < 3; c++) {
+          data[target + c] = Math.round(data[target + c] * (1 - alpha) + color[c] * alpha);
+        }
+        data[target + 3] = 0xff;
+      }
+    }
+  }
+
+  /**
+   * Copy the owned squares of the given cells
+   */
+  readCells(cells: ArrayLike<number>): GridPatch {
+    let length = 0;
+    for (let i = 0; i < cells.length; i++) {
+      const [width, height] = this.ownedSize(cells[i] % this.gridWidth, Math.floor(cells[i] / this.gridWidth));
+      length += width * height * 4;
+    }
+    const patch: GridPatch = { cells: Int32Array.from(cells), pixels: new Uint8ClampedArray(length) };
+    let offset = 0;
+    this.forEachOwnedRow(patch.cells, (target, rowBytes) => {
+      patch.pixels.set(this.image.data.subarray(target, target + rowBytes), offset);
+      offset += rowBytes;
+    });
+    return patch;
+  }
+
+  /**
+   * Paint cells from a patch read off a renderer with the same grid
+   */
+  applyPatch(patch: GridPatch): void {
+    let offset = 0;
+    this.forEachOwnedRow(patch.cells, (target, rowBytes) => {
+      this.image.data.set(patch.pixels.subarray(offset, offset + rowBytes), target);
+      offset += rowBytes;
+    });
+  }
+
+  /**
+   * Visit each pixel row of the cells' owned squares, in patch order
+   */
+  private forEachOwnedRow(cells: Int32Array, visit: (target: number, rowBytes: number) => void): void {
+    for (const cellIndex of cells) {
+      const x = cellIndex % this.gridWidth;
+      const y = Math.floor(cellIndex / this.gridWidth);
+      const [width, height] = this.ownedSize(x, y);
+      for (let ty = 0; ty < height; ty++) {
+        visit(this.pixelOffset(x * this.step, y * this.step + ty), width * 4);
+      }
+    }
+  }
+
+  /**
+   * Width and height of the square a cell owns
+   */
+  private ownedSize(x: number, y: number): [number, number] {
+    if (this.periodic) return [this.step, this.step];
+    return [
+      x === this.gridWidth - 1 ? this.tileSize : this.step,
+      y === this.gridHeight - 1 ? this.tileSize : this.step
+    ];
+  }
+
+  private pixelOffset(px: number, py: number): number {
+    return (py * this.image.width + px) * 4;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Plain RGBA pixel buffer, row-major with 4 bytes per pixel.
+ * Structurally compatible with the DOM's ImageData, but usable in Node and workers.
+ */
+export interface RGBAImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * One pixel's red, green, blue and alpha channels, each 0-255
+ */
+export type RGBAColor = readonly [number, number, number, number];
+
+/**
+ * Allocate a transparent image
+ */
+export function createImage(width: number, height: number): RGBAImage {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+/**
+ * FNV-1a checksum of an image's size and pixels, as 8 hex digits.
+ * Identifies the sample a tileset was extracted from; not a cryptographic hash.
+ */
+export function hashImage(image: RGBAImage): string {
+  let hash = 0x811c9dc5;
+  const mix = (byte: number) => {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  };
+  for (const value of [image.width, image.height]) {
+    mix(value & 0xff);
+    mix((value >>> 8) & 0xff);
+    mix((value >>> 16) & 0xff);
+    mix(value >>> 24);
+  }
+  for (let i = 0; i < image.data.length; i++) {
+    mix(image.data[i]);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,17 @@
+/**
+ * DOM-free WFC core: pattern extraction, adjacency rules and generation on plain RGBA buffers.
+ * Safe to import from Node, Web Workers and tests.
+ */
+export * from './image';
+export * from './border';
+export * from './random';
+export * from './symmetry';
+export * from './patternExtractor';
+export * from './tileSet';
+export * from './wfcGenerator';
+export * from './cellSelection';
+export * from './visualization';
+export * from './simpleTiledModel';
+export * from './chunkedWorld';
+export * from './mapExport';
+export * from './tileSetAnalyzer';
@@ -0,0 +1,228 @@
+import { RGBAImage, createImage } from './image';
+import { TileModel, TileSet } from './tileSet';
+
+/**
+ * Identifies the tile set a map was generated with, so an importer can match tile IDs to tiles
+ */
+export interface TileSetReference {
+  /** Sample image path or tileset file name */
+  source: string;
+  model: TileModel;
+  tileSize: number;
+  tileCount: number;
+}
+
+/**
+ * Portable cell-to-tile assignment of one generated output
+ */
+export interface TileMapExport {
+  format: 'wfc-tilemap';
+  version: 1;
+  width: number;
+  height: number;
+  seed: number;
+  /** Pixels each cell contributes to the image: 1 for overlapping patterns, the tile size for simple tiles */
+  cellSize: number;
+  tileSet: TileSetReference;
+  /** Tile ID per cell, indexed [y][x] */
+  tiles: number[][];
+}
+
+/**
+ * Tile atlas for Tiled: one cellSize × cellSize image per tile, in tile set order
+ */
+export interface TileAtlas {
+  image: RGBAImage;
+  columns: number;
+  tileWidth: number;
+  tileHeight: number;
+  tileCount: number;
+}
+
+export interface TiledMapOptions {
+  /** File name the map uses to refer to the atlas image */
+  atlasFile: string;
+  /** Name of the embedded tileset */
+  name?: string;
+}
+
+/**
+ * Nearest-neighbor upscale by an integer factor
+ */
+export function upscaleImage(image: RGBAImage, scale: number): RGBAImage {
+  if (!Number.isInteger(scale) || scale < 1) {
+    throw new Error('Scale must be a positive integer');
+  }
+  if (scale === 1) return image;
+
+  const output = createImage(image.width * scale, image.height * scale);
+  const rowBytes = output.width * 4;
+  for (let y = 0; y < image.height; y++) {
+    const row = y * scale * rowBytes;
+    for (let x = 0; x < image.width; x++) {
+      const source = (y * image.width + x) * 4;
+      for (let i = 0; i < scale; i++) {
+        output.data.set(image.data.subarray(source, source + 4), row + (x * scale + i) * 4);
+      }
+    }
+    // Repeat the finished row
+    for (let i = 1; i < scale; i++) {
+      output.data.copyWithin(row + i * rowBytes, row, row + rowBytes);
+    }
+  }
+  return output;
+}
+
+/**
+ * Pixels each cell contributes to the output (the generator's step)
+ */
+export function getCellSize(tileSet: TileSet): number {
+  const tileSize = tileSet.getTiles()[0]?.pixelData.width ?? 1;
+  return tileSize - tileSet.getOverlap();
+}
+
+export function createTileMapExport(
+  tileIds: number[][],
+  seed: number,
+  tileSet: TileSet,
+  source: string
+): TileMapExport {
+  return {
+    format: 'wfc-tilemap',
+    version: 1,
+    width: tileIds[0]?.length ?? 0,
+    height: tileIds.length,
+    seed,
+    cellSize: getCellSize(tileSet),
+    tileSet: {
+      source,
+      model: tileSet.model,
+      tileSize: tileSet.getTiles()[0]?.pixelData.width ?? 0,
+      tileCount: tileSet.getTiles().length
+    },
+    tiles: tileIds.map(row => row.slice())
+  };
+}
+
+/**
+ * Lay the tiles out in a roughly square grid; each tile shows the block it contributes to the output
+ */
+export function createTileAtlas(tileSet: TileSet): TileAtlas {
+  const tiles = tileSet.getTiles();
+  const cellSize = getCellSize(tileSet);
+  const columns = Math.max(1, Math.ceil(Math.sqrt(tiles.length)));
+  const rows = Math.max(1, Math.ceil(tiles.length / columns));
+  const image = createImage(columns * cellSize, rows * cellSize);
+
+  tiles.forEach((tile, index) => {
+    const { data, width } = tile.pixelData;
+    const left = (index % columns) * cellSize;
+    const top = Math.floor(index / columns) * cellSize;
+    for (let y = 0; y < cellSize; y++) {
+      const source = y * width * 4;
+      image.data.set(data.subarray(source, source + cellSize * 4), ((top + y) * image.width + left) * 4);
+    }
+  });
+
+  return { image, columns, tileWidth: cellSize, tileHeight: cellSize, tileCount: tiles.length };
+}
+
+/**
+ * Tiled global tile IDs (1-based atlas positions, 0 is empty), row-major
+ */
+function toGids(tileIds: number[][], tileSet: TileSet): number[] {
+  const indexById = new Map(tileSet.getTiles().map((tile, index) => [tile.id, index]));
+  const gids: number[] = [];
+  for (const row of tileIds) {
+    for (const id of row) {
+      const index = indexById.get(id);
+      gids.push(index === undefined ? 0 : index + 1);
+    }
+  }
+  return gids;
+}
+
+/**
+ * Tiled JSON map (.tmj) with a single tile layer and an embedded tileset pointing at the atlas
+ */
+export function createTiledJson(map: TileMapExport, tileSet: TileSet, atlas: TileAtlas, options: TiledMapOptions): string {
+  const json = {
+    type: 'map',
+    version: '1.10',
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    width: map.width,
+    height: map.height,
+    tilewidth: atlas.tileWidth,
+    tileheight: atlas.tileHeight,
+    infinite: false,
+    nextlayerid: 2,
+    nextobjectid: 1,
+    properties: [{ name: 'seed', type: 'int', value: map.seed }],
+    layers: [{
+      id: 1,
+      name: 'WFC',
+      type: 'tilelayer',
+      x: 0,
+      y: 0,
+      width: map.width,
+      height: map.height,
+      opacity: 1,
+      visible: true,
+      data: toGids(map.tiles, tileSet)
+    }],
+    tilesets: [{
+      firstgid: 1,
+      name: options.name ?? 'wfc',
+      image: options.atlasFile,
+      imagewidth: atlas.image.width,
+      imageheight: atlas.image.height,
+      tilewidth: atlas.tileWidth,
+      tileheight: atlas.tileHeight,
+      tilecount: atlas.tileCount,
+      columns: atlas.columns,
+      margin: 0,
+      spacing: 0
+    }]
+  };
+  return JSON.stringify(json, null, 2);
+}
+
+/**
+ * Tiled XML map (.tmx), same content as createTiledJson with CSV layer data
+ */
+export function createTiledXml(map: TileMapExport, tileSet: TileSet, atlas: TileAtlas, options: TiledMapOptions): string {
+  const gids = toGids(map.tiles, tileSet);
+  const rows: string[] = [];
+  for (let y = 0; y < map.height; y++) {
+    rows.push(gids.slice(y * map.width, (y + 1) * map.width).join(','));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<map version="1.10" orientation="orthogonal" renderorder="right-down" width="${map.width}" height="${map.height}" ` +
+      `tilewidth="${atlas.tileWidth}" tileheight="${atlas.tileHeight}" infinite="0" nextlayerid="2" nextobjectid="1">`,
+    ' <properties>',
+    `  <property name="seed" type="int" value="${map.seed}"/>`,
+    ' </properties>',
+    ` <tileset firstgid="1" name="${escapeXml(options.name ?? 'wfc')}" tilewidth="${atlas.tileWidth}" ` +
+      `tileheight="${atlas.tileHeight}" tilecount="${atlas.tileCount}" columns="${atlas.columns}">`,
+    `  <image source="${escapeXml(options.atlasFile)}" width="${atlas.image.width}" height="${atlas.image.height}"/>`,
+    ' </tileset>',
+    ` <layer id="1" name="WFC" width="${map.width}" height="${map.height}">`,
+    '  <data encoding="csv">',
+    rows.join(',\n'),
+    '  </data>',
+    ' </layer>',
+    '</map>',
+    ''
+  ].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { extractPatterns } from './patternExtractor';
+import { patternVariants } from './symmetry';
+import { loadSample } from '../test/samples';
+
+describe('extractPatterns', () => {
+  it('counts each symmetry variant of each sample window once', () => {
+    const sample = loadSample('Knot');
+    const { patterns, frequencies, originalCount } = extractPatterns(sample, 3, { symmetry: 8 });
+    const plain = extractPatterns(sample, 3);
+
+    let sum = 0;
+    frequencies.forEach(count => sum += count);
+    expect(sum).toBe(sample.width * sample.height * 8);
+
+    // Reference counting: every window adds 1 to each of its eight variants
+    const ids = new Map(patterns.map(pattern => [pattern.pixelData.data.join(), pattern.id]));
+    const expected = new Map<number, number>();
+    for (const pattern of plain.patterns) {
+      const occurrences = plain.frequencies.get(pattern.id)!;
+      for (const variant of patternVariants(pattern.pixelData.data, 3, 8)) {
+        const id = ids.get(variant.data.join())!;
+        expected.set(id, (expected.get(id) ?? 0) + occurrences);
+      }
+    }
+    expect(frequencies).toEqual(expected);
+
+    // Symmetry must not reorder two originals it adds the same amount to
+    for (let a = 0; a < originalCount; a++) {
+      for (let b = 0; b < originalCount; b++) {
+        const before = plain.frequencies.get(a)! - plain.frequencies.get(b)!;
+        const after = frequencies.get(a)! - frequencies.get(b)!;
+        if (expected.get(a)! - plain.frequencies.get(a)! === expected.get(b)! - plain.frequencies.get(b)!) {
+          expect(Math.sign(after)).toBe(Math.sign(before));
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import { RGBAImage, hashImage } from './image';
+import { Tile } from './tileSet';
+import { Symmetry, TransformName, patternVariants } from './symmetry';
+import { BorderEdge } from './border';
+
+/**
+ * Where a tile came from: either straight from the sample, or a transform of another tile
+ */
+export interface TileOrigin {
+  sourceId: number | null;
+  transform: TransformName;
+}
+
+export interface ExtractionOptions {
+  /** How many dihedral variants of each pattern to add (1 = sample patterns only) */
+  symmetry?: Symmetry;
+  /** Treat the sample as toroidal; when off, only windows fully inside the image are used */
+  periodicInput?: boolean;
+}
+
+/**
+ * An extracted N×N pattern. Usable directly as a TileSet tile.
+ */
+export interface Pattern extends Tile, TileOrigin {
+  /** Top-left corner of the sample window it was first seen at (the original's, for variants) */
+  x: number;
+  y: number;
+}
+
+export interface ExtractionResult {
+  patterns: Pattern[];
+  /** How many times each pattern occurred, variants included */
+  frequencies: Map<number, number>;
+  /** Patterns [0, originalCount) appear in the sample as-is; the rest are symmetry variants */
+  originalCount: number;
+  /** Sample windows touching each side of the sample, by pattern id; candidates for WFCOptions.borders */
+  sampleEdges: Record<BorderEdge, number[]>;
+  /** Size and checksum of the sample, so saved tilesets can be traced back to it */
+  sample: { width: number; height: number; hash: string };
+}
+
+/**
+ * Called as extraction advances; done counts sample windows and symmetry variants processed so far
+ */
+export type ExtractionProgress = (done: number, total: number) => void;
+
+/**
+ * Extract every unique tileSize × tileSize pattern from an RGBA image, with frequencies.
+ * Pixels are packed into 32-bit words once; windows are hashed as integers and compared
+ * word by word on a hash match, so no per-window strings or canvases are created.
+ */
+export function extractPatterns(
+  image: RGBAImage,
+  tileSize: number,
+  options: ExtractionOptions = {},
+  onProgress?: ExtractionProgress
+): ExtractionResult {
+  const symmetry = options.symmetry ?? 1;
+  const periodicInput = options.periodicInput ?? true;
+  const { width, height } = image;
+  // Copy so the words are aligned whatever the source buffer's offset
+  const pixels = new Uint32Array(new Uint8ClampedArray(image.data).buffer, 0, width * height);
+  const area = tileSize * tileSize;
+
+  const patterns: Pattern[] = [];
+  // Each pattern's pixels as packed words, for exact comparison on a hash match
+  const patternWords: Uint32Array[] = [];
+  const counts: number[] = [];
+  const buckets = new Map<number, number[]>();
+
+  const addOccurrences = (words: Uint32Array, count: number, source: Omit<Pattern, 'id' | 'pixelData'>): number => {
+    const hash = hashWords(words);
+    const bucket = buckets.get(hash);
+    let id = bucket?.find(candidate => sameWords(patternWords[candidate], words));
+    if (id === undefined) {
+      id = patterns.length;
+      const copy = words.slice();
+      patternWords.push(copy);
+      counts.push(0);
+      if (bucket) bucket.push(id);
+      else buckets.set(hash, [id]);
+      const data = new Uint8ClampedArray(copy.buffer);
+      patterns.push({ id, pixelData: { width: tileSize, height: tileSize, data }, ...source });
+    }
+    counts[id] += count;
+    return id;
+  };
+  const edgeSets: Record<BorderEdge, Set<number>> = {
+    top: new Set(),
+    bottom: new Set(),
+    left: new Set(),
+    right: new Set()
+  };
+
+  // Pass 1: patterns exactly as they appear in the sample.
+  // Without periodic input, windows that would wrap past the edge are skipped.
+  const maxY = periodicInput ? height : height - tileSize + 1;
+  const maxX = periodicInput ? width : width - tileSize + 1;
+  const windowCount = Math.max(0, maxX) * Math.max(0, maxY);
+  const window = new Uint32Array(area);
+  for (let y = 0; y < maxY; y++) {
+    for (let x = 0; x < maxX; x++) {
+      for (let dy = 0; dy < tileSize; dy++) {
+        const row = ((y + dy) % height) * width;
+        for (let dx = 0; dx < tileSize; dx++) {
+          window[dy * tileSize + dx] = pixels[row + (x + dx) % width];
+        }
+      }
+      const id = addOccurrences(window, 1, { x, y, sourceId: null, transform: 'original' });
+      // Wrapped windows don't count: their last rows or columns come from the opposite side
+      if (y === 0) edgeSets.top.add(id);
+      if (y + tileSize === height) edgeSets.bottom.add(id);
+      if (x === 0) edgeSets.left.add(id);
+      if (x + tileSize === width) edgeSets.right.add(id);
+    }
+    onProgress?.((y + 1) * maxX, windowCount);
+  }
+
+  // Pass 2: rotated and mirrored copies. Each variant inherits the sample count
+  // of its original, so frequencies stay proportional to sample occurrences.
+  // Counts are read from a copy: variants of earlier originals add to later ones.
+  const originalCount = patterns.length;
+  const sampleCounts = counts.slice();
+  const total = windowCount + (symmetry > 1 ? originalCount : 0);
+  for (let id = 0; id < originalCount && symmetry > 1; id++) {
+    const original = patterns[id];
+    const count = sampleCounts[id];
+    const variants = patternVariants(original.pixelData.data, tileSize, symmetry);
+    for (let v = 1; v < variants.length; v++) {
+      addOccurrences(new Uint32Array(variants[v].data.buffer), count, {
+        x: original.x,
+        y: original.y,
+        sourceId: id,
+        transform: variants[v].transform
+      });
+    }
+    if (id % 256 === 255 || id === originalCount - 1) {
+      onProgress?.(windowCount + id + 1, total);
+    }
+  }
+
+  const frequencies = new Map<number, number>(); // Track how many times each tile appears
+  counts.forEach((count, id) => frequencies.set(id, count));
+
+  return {
+    patterns,
+    frequencies,
+    originalCount,
+    sampleEdges: {
+      top: sortedIds(edgeSets.top),
+      bottom: sortedIds(edgeSets.bottom),
+      left: sortedIds(edgeSets.left),
+      right: sortedIds(edgeSets.right)
+    },
+    sample: { width, height, hash: hashImage(image) }
+  };
+}
+
+/**
+ * 32-bit hash of packed pixels (FNV-1a over words, with an extra shift to mix high bits down)
+ */
+function hashWords(words: Uint32Array): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < words.length; i++) {
+    hash = Math.imul(hash ^ words[i], 0x01000193);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+}
+
+function sortedIds(ids: Set<number>): number[] {
+  return Array.from(ids).sort((a, b) => a - b);
+}
+
+function sameWords(a: Uint32Array, b: Uint32Array): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
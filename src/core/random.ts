@@ -0,0 +1,80 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomFn = () => number;
+
+/**
+ * Factory that builds a PRNG from a 32-bit seed
+ */
+export type RandomFactory = (seed: number) => RandomFn;
+
+/**
+ * Create a seeded PRNG (mulberry32).
+ * Small and fast, with a full 2^32 period, which is plenty for tile choices.
+ */
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh 32-bit seed when the caller didn't provide one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * In-place Fisher-Yates shuffle driven by the given PRNG
+ */
+export function shuffle<T>(items: T[], random: RandomFn): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Pick an index with probability proportional to its weight.
+ * Falls back to a uniform pick when every weight is zero.
+ */
+export function weightedIndex(weights: ArrayLike<number>, random: RandomFn): number {
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) total += weights[i];
+  if (total <= 0) {
+    return Math.floor(random() * weights.length);
+  }
+  let r = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= weights[i];
+    if (r < 0) return i;
+  }
+  // Rounding can leave r at 0 after the last positive weight
+  for (let i = weights.length - 1; i >= 0; i--) {
+    if (weights[i] > 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * Mix a base seed with integer coordinates into a new well-spread 32-bit seed,
+ * so e.g. each chunk of a world gets its own reproducible stream
+ */
+export function deriveSeed(seed: number, ...values: number[]): number {
+  let h = seed >>> 0;
+  for (const value of values) {
+    h = Math.imul(h ^ (value | 0), 0x9e3779b1);
+    h ^= h >>> 16;
+  }
+  // murmur3 finalizer
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
@@ -0,0 +1,234 @@
+import { RGBAImage } from './image';
+import { AdjacencyRules, Tile, TileSet } from './tileSet';
+import { reflectPattern, rotatePattern } from './symmetry';
+
+/**
+ * Symmetry class of a hand-authored tile, as in the reference WFC tileset format.
+ * The letter's shape describes which rotations and reflections leave the tile unchanged.
+ */
+export type TileSymmetryClass = 'X' | 'L' | 'T' | 'I' | '\\' | 'F';
+
+export const TILE_SYMMETRY_CLASSES: readonly TileSymmetryClass[] = ['X', 'L', 'T', 'I', '\\', 'F'];
+
+export interface SimpleTileDefinition {
+  name: string;
+  symmetry?: TileSymmetryClass;
+  /** Relative likelihood, defaults to 1 */
+  weight?: number;
+}
+
+/**
+ * `left` may sit directly left of `right`. Each side is "name" or "name k", where k picks a variant.
+ */
+export interface SimpleNeighborDefinition {
+  left: string;
+  right: string;
+}
+
+export interface SimpleTiledDefinition {
+  /** Edge length of every tile image in pixels; inferred from the images when omitted */
+  size?: number;
+  /** When true, every variant has its own image ("name k"); otherwise variants are generated */
+  unique?: boolean;
+  tiles: SimpleTileDefinition[];
+  neighbors: SimpleNeighborDefinition[];
+}
+
+export interface SimpleTiledModel {
+  tileSet: TileSet;
+  /** Variant name ("name k") for each tile ID */
+  tileNames: string[];
+}
+
+interface SymmetryActions {
+  cardinality: number;
+  rotate: (i: number) => number;
+  reflect: (i: number) => number;
+}
+
+/**
+ * How rotating (a) and reflecting (b) permutes the variants of each symmetry class
+ */
+function symmetryActions(symmetry: TileSymmetryClass): SymmetryActions {
+  switch (symmetry) {
+    case 'L':
+      return { cardinality: 4, rotate: i => (i + 1) % 4, reflect: i => (i % 2 === 0 ? i + 1 : i - 1) };
+    case 'T':
+      return { cardinality: 4, rotate: i => (i + 1) % 4, reflect: i => (i % 2 === 0 ? i : 4 - i) };
+    case 'I':
+      return { cardinality: 2, rotate: i => 1 - i, reflect: i => i };
+    case '\\':
+      return { cardinality: 2, rotate: i => 1 - i, reflect: i => 1 - i };
+    case 'F':
+      return {
+        cardinality: 8,
+        rotate: i => (i < 4 ? (i + 1) % 4 : 4 + ((i - 1) % 4)),
+        reflect: i => (i < 4 ? i + 4 : i - 4)
+      };
+    case 'X':
+      return { cardinality: 1, rotate: i => i, reflect: i => i };
+  }
+}
+
+/**
+ * Validate an untrusted definition (e.g. parsed JSON) and return it typed
+ */
+export function parseSimpleTiledDefinition(value: unknown): SimpleTiledDefinition {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Tileset definition must be an object');
+  }
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.tiles) || raw.tiles.length === 0) {
+    throw new Error('Tileset definition needs a non-empty "tiles" array');
+  }
+  if (!Array.isArray(raw.neighbors)) {
+    throw new Error('Tileset definition needs a "neighbors" array');
+  }
+
+  const tiles = raw.tiles.map((tile, i): SimpleTileDefinition => {
+    const { name, symmetry, weight } = (tile ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || name === '') {
+      throw new Error(`Tile ${i} has no name`);
+    }
+    if (symmetry !== undefined && !TILE_SYMMETRY_CLASSES.includes(symmetry as TileSymmetryClass)) {
+      throw new Error(`Tile "${name}" has unknown symmetry "${String(symmetry)}"`);
+    }
+    if (weight !== undefined && (typeof weight !== 'number' || !(weight > 0))) {
+      throw new Error(`Tile "${name}" needs a positive weight`);
+    }
+    return { name, symmetry: symmetry as TileSymmetryClass | undefined, weight: weight as number | undefined };
+  });
+
+  const neighbors = raw.neighbors.map((neighbor, i): SimpleNeighborDefinition => {
+    const { left, right } = (neighbor ?? {}) as Record<string, unknown>;
+    if (typeof left !== 'string' || typeof right !== 'string') {
+      throw new Error(`Neighbor ${i} needs "left" and "right" tile names`);
+    }
+    return { left, right };
+  });
+
+  if (raw.size !== undefined && (typeof raw.size !== 'number' || !Number.isInteger(raw.size) || raw.size < 1)) {
+    throw new Error('Tileset "size" must be a positive integer');
+  }
+
+  return {
+    size: raw.size as number | undefined,
+    unique: raw.unique === true,
+    tiles,
+    neighbors
+  };
+}
+
+/**
+ * Build a simple-tiled-model TileSet from a definition and its tile images.
+ * Images are looked up by tile name, or by "name k" per variant for unique tilesets.
+ * Mirrors the reference implementation's variant generation and neighbor expansion.
+ */
+export function buildSimpleTiledModel(
+  definition: SimpleTiledDefinition,
+  images: Map<string, RGBAImage>
+): SimpleTiledModel {
+  const tiles: Tile[] = [];
+  const tileNames: string[] = [];
+  const weights = new Map<number, number>();
+  // action[t][k]: the variant reached from t by the k-th of the 8 dihedral transforms
+  const action: number[][] = [];
+  const firstOccurrence = new Map<string, number>();
+  let size = definition.size;
+
+  const getImage = (name: string): RGBAImage => {
+    const image = images.get(name);
+    if (!image) {
+      throw new Error(`Missing image for tile "${name}"`);
+    }
+    size ??= image.width;
+    if (image.width !== size || image.height !== size) {
+      throw new Error(`Tile "${name}" is ${image.width}×${image.height}, expected ${size}×${size}`);
+    }
+    return image;
+  };
+
+  for (const tile of definition.tiles) {
+    if (firstOccurrence.has(tile.name)) {
+      throw new Error(`Tile "${tile.name}" is defined twice`);
+    }
+    const { cardinality, rotate: a, reflect: b } = symmetryActions(tile.symmetry ?? 'X');
+    const offset = action.length;
+    firstOccurrence.set(tile.name, offset);
+
+    for (let t = 0; t < cardinality; t++) {
+      action.push([
+        t, a(t), a(a(t)), a(a(a(t))),
+        b(t), b(a(t)), b(a(a(t))), b(a(a(a(t))))
+      ].map(variant => variant + offset));
+    }
+
+    for (let t = 0; t < cardinality; t++) {
+      let data: Uint8ClampedArray;
+      if (definition.unique) {
+        data = getImage(`${tile.name} ${t}`).data;
+      } else if (t === 0) {
+        data = getImage(tile.name).data;
+      } else if (t <= 3) {
+        data = rotatePattern(tiles[offset + t - 1].pixelData.data, size!);
+      } else {
+        data = reflectPattern(tiles[offset + t - 4].pixelData.data, size!);
+      }
+      const id = offset + t;
+      tiles.push({ id, pixelData: { width: size!, height: size!, data } });
+      tileNames.push(`${tile.name} ${t}`);
+      weights.set(id, tile.weight ?? 1);
+    }
+  }
+
+  const variantOf = (reference: string): number => {
+    const [name, index] = reference.trim().split(/\s+/);
+    const first = firstOccurrence.get(name);
+    if (first === undefined) {
+      throw new Error(`Neighbor rule refers to unknown tile "${name}"`);
+    }
+    const k = index === undefined ? 0 : parseInt(index);
+    if (isNaN(k) || k < 0 || k > 7) {
+      throw new Error(`Neighbor rule "${reference}" has an invalid variant index`);
+    }
+    return action[first][k];
+  };
+
+  // leftOf[t1] holds tiles allowed left of t1; below[t1] holds tiles allowed under t1
+  const count = tiles.length;
+  const leftOf = Array.from({ length: count }, () => new Set<number>());
+  const below = Array.from({ length: count }, () => new Set<number>());
+
+  for (const neighbor of definition.neighbors) {
+    const L = variantOf(neighbor.left);
+    const R = variantOf(neighbor.right);
+    // Rotating a horizontal pair a quarter turn gives a vertical pair
+    const D = action[L][1];
+    const U = action[R][1];
+
+    leftOf[R].add(L);
+    leftOf[action[R][6]].add(action[L][6]);
+    leftOf[action[L][4]].add(action[R][4]);
+    leftOf[action[L][2]].add(action[R][2]);
+
+    below[U].add(D);
+    below[action[D][6]].add(action[U][6]);
+    below[action[U][4]].add(action[D][4]);
+    below[action[D][2]].add(action[U][2]);
+  }
+
+  const rules = new Map<number, AdjacencyRules>();
+  for (let t = 0; t < count; t++) {
+    rules.set(t, { up: [], down: Array.from(below[t]), left: Array.from(leftOf[t]), right: [] });
+  }
+  // Right and up are the mirror images of left and down
+  for (let t1 = 0; t1 < count; t1++) {
+    for (const t2 of leftOf[t1]) rules.get(t2)!.right.push(t1);
+    for (const t2 of below[t1]) rules.get(t2)!.up.push(t1);
+  }
+
+  return {
+    tileSet: new TileSet(tiles, weights, { model: 'simple', rules }),
+    tileNames
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Number of dihedral variants to generate for each extracted pattern
+ */
+export type Symmetry = 1 | 2 | 4 | 8;
+
+export const SYMMETRY_OPTIONS: readonly Symmetry[] = [1, 2, 4, 8];
+
+/**
+ * Names of the 8 dihedral transforms, in the order the reference WFC implementation generates them
+ */
+export const TRANSFORM_NAMES = [
+  'original',
+  'mirror',
+  'rot90',
+  'rot90+mirror',
+  'rot180',
+  'rot180+mirror',
+  'rot270',
+  'rot270+mirror'
+] as const;
+
+export type TransformName = typeof TRANSFORM_NAMES[number];
+
+export interface PatternVariant {
+  data: Uint8ClampedArray;
+  transform: TransformName;
+}
+
+/**
+ * Rotate a square RGBA pattern 90° counter-clockwise
+ */
+export function rotatePattern(data: Uint8ClampedArray, size: number): Uint8ClampedArray {
+  const result = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const target = (y * size + x) * 4;
+      const source = (x * size + (size - 1 - y)) * 4;
+      result.set(data.subarray(source, source + 4), target);
+    }
+  }
+  return result;
+}
+
+/**
+ * Mirror a square RGBA pattern horizontally
+ */
+export function reflectPattern(data: Uint8ClampedArray, size: number): Uint8ClampedArray {
+  const result = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const target = (y * size + x) * 4;
+      const source = (y * size + (size - 1 - x)) * 4;
+      result.set(data.subarray(source, source + 4), target);
+    }
+  }
+  return result;
+}
+
+/**
+ * Build the first `symmetry` dihedral variants of a pattern.
+ * Index 0 is always the untouched pattern.
+ */
+export function patternVariants(data: Uint8ClampedArray, size: number, symmetry: Symmetry): PatternVariant[] {
+  // Odd entries mirror the previous one, even entries rotate the one two steps back
+  const variants: Uint8ClampedArray[] = [data];
+  for (let i = 1; i < symmetry; i++) {
+    variants[i] = i % 2 === 1
+      ? reflectPattern(variants[i - 1], size)
+      : rotatePattern(variants[i - 2], size);
+  }
+
+  return variants.map((variant, i) => ({ data: variant, transform: TRANSFORM_NAMES[i] }));
+}
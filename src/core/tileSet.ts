@@ -0,0 +1,383 @@
+import { RGBAColor, RGBAImage } from './image';
+import type { ExtractionOptions } from './patternExtractor';
+import { SYMMETRY_OPTIONS, Symmetry } from './symmetry';
+
+export interface Tile {
+    id: number;
+    pixelData: RGBAImage;
+  }
+  
+  export type Direction = 'up' | 'down' | 'left' | 'right';
+  
+  export interface AdjacencyRules {
+    up: number[];
+    down: number[];
+    left: number[];
+    right: number[];
+  }
+
+  /**
+   * overlapping: N×N patterns that share N-1 pixels with their neighbors, rules derived from pixels.
+   * simple: hand-authored tiles placed edge to edge, rules given explicitly.
+   */
+  export type TileModel = 'overlapping' | 'simple';
+
+  /**
+   * The image a tileset was extracted from (or the definition file it was loaded from)
+   */
+  export interface TileSetSource {
+    name: string;
+    /** hashImage checksum of the sample; absent for hand-authored tilesets */
+    hash?: string;
+    width?: number;
+    height?: number;
+  }
+
+  export interface TileSetOptions {
+    model?: TileModel;
+    /** Precomputed adjacency rules. Required for the simple model; skips overlap matching otherwise. */
+    rules?: Map<number, AdjacencyRules>;
+    source?: TileSetSource;
+    /** Options the patterns were extracted with */
+    extraction?: ExtractionOptions;
+  }
+
+  export interface SerializedTile {
+    id: number;
+    /** Base64 of the tile's RGBA bytes, row-major */
+    pixels: string;
+    frequency: number;
+    rules: AdjacencyRules;
+  }
+
+  /**
+   * Portable tileset file: everything needed to generate without the sample
+   */
+  export interface SerializedTileSet {
+    format: 'wfc-tileset';
+    version: 1;
+    model: TileModel;
+    tileSize: number;
+    source?: TileSetSource;
+    extraction?: ExtractionOptions;
+    tiles: SerializedTile[];
+  }
+
+  const DIRECTIONS: readonly Direction[] = ['up', 'down', 'left', 'right'];
+
+  interface OverlapSignatures {
+    rightOverlap: string;  // Columns 1 to end (for matching with left side of neighbor)
+    leftOverlap: string;   // Columns 0 to end-1 (for matching with right side of neighbor)
+    downOverlap: string;   // Rows 1 to end (for matching with top side of neighbor)
+    upOverlap: string;     // Rows 0 to end-1 (for matching with bottom side of neighbor)
+  }
+  
+  export class TileSet {
+    tiles: Tile[];
+    neighbors: Map<number, AdjacencyRules>;
+    readonly model: TileModel;
+    readonly source?: TileSetSource;
+    readonly extraction?: ExtractionOptions;
+    private overlapSignatures: Map<number, OverlapSignatures>;
+    private tileFrequencies: Map<number, number>; // How many times each tile appeared in sample (or its weight)
+
+    constructor(tiles: Tile[], frequencies?: Map<number, number>, options: TileSetOptions = {}) {
+      this.tiles = tiles;
+      this.model = options.model ?? 'overlapping';
+      this.source = options.source;
+      this.extraction = options.extraction;
+      this.overlapSignatures = new Map();
+      this.tileFrequencies = frequencies || new Map();
+      // If no frequencies provided, assume uniform distribution
+      if (this.tileFrequencies.size === 0) {
+        tiles.forEach(tile => this.tileFrequencies.set(tile.id, 1));
+      }
+      if (options.rules) {
+        this.neighbors = options.rules;
+      } else if (this.model === 'simple') {
+        throw new Error('The simple tiled model needs explicit adjacency rules');
+      } else {
+        this.precomputeOverlapSignatures();
+        this.neighbors = this.computeNeighbors();
+      }
+    }
+
+    /**
+     * Precompute overlap signatures for all tiles to optimize neighbor computation.
+     * Uses WFC overlap model where tiles share (tileSize-1) pixels when adjacent.
+     * Each signature packs the overlapping pixels two characters per pixel, so equal strings mean equal pixels.
+     */
+    private precomputeOverlapSignatures(): void {
+      if (!this.tiles.length) return;
+      
+      const tileSize = this.tiles[0].pixelData.width;
+
+      for (const tile of this.tiles) {
+        // Copy so the words are aligned whatever the source buffer's offset
+        const words = new Uint32Array(tile.pixelData.data.slice().buffer, 0, tileSize * tileSize);
+        const signature = (rows: [number, number], cols: [number, number]) => {
+          const codes: number[] = [];
+          for (let r = rows[0]; r < rows[1]; r++) {
+            for (let c = cols[0]; c < cols[1]; c++) {
+              const word = words[r * tileSize + c];
+              codes.push(word & 0xffff, word >>> 16);
+            }
+          }
+          return String.fromCharCode(...codes);
+        };
+
+        this.overlapSignatures.set(tile.id, {
+          // Columns 1 to tileSize-1 (all rows)
+          rightOverlap: signature([0, tileSize], [1, tileSize]),
+          // Columns 0 to tileSize-2 (all rows)
+          leftOverlap: signature([0, tileSize], [0, tileSize - 1]),
+          // Rows 1 to tileSize-1 (all columns)
+          downOverlap: signature([1, tileSize], [0, tileSize]),
+          // Rows 0 to tileSize-2 (all columns)
+          upOverlap: signature([0, tileSize - 1], [0, tileSize])
+        });
+      }
+    }
+
+    /**
+     * Compute which tiles can be adjacent using the overlap model.
+     * Tiles are bucketed by signature, so each tile looks up its matches instead of
+     * comparing against every other tile: O(n) plus the number of rules.
+     */
+    private computeNeighbors(): Map<number, AdjacencyRules> {
+      const neighbors = new Map<number, AdjacencyRules>();
+      if (!this.tiles.length) return neighbors;
+
+      const byLeft = new Map<string, number[]>();
+      const byRight = new Map<string, number[]>();
+      const byUp = new Map<string, number[]>();
+      const byDown = new Map<string, number[]>();
+      const add = (buckets: Map<string, number[]>, signature: string, id: number) => {
+        const bucket = buckets.get(signature);
+        if (bucket) bucket.push(id);
+        else buckets.set(signature, [id]);
+      };
+      for (const tile of this.tiles) {
+        const sig = this.overlapSignatures.get(tile.id);
+        if (!sig) continue;
+        add(byLeft, sig.leftOverlap, tile.id);
+        add(byRight, sig.rightOverlap, tile.id);
+        add(byUp, sig.upOverlap, tile.id);
+        add(byDown, sig.downOverlap, tile.id);
+      }
+
+      for (const tileA of this.tiles) {
+        const sigA = this.overlapSignatures.get(tileA.id);
+        if (!sigA) continue;
+
+        neighbors.set(tileA.id, {
+          // Tile B can be ABOVE: A's up overlap matches B's down overlap
+          up: (byDown.get(sigA.upOverlap) ?? []).slice(),
+          // Tile B can be BELOW: A's down overlap matches B's up overlap
+          down: (byUp.get(sigA.downOverlap) ?? []).slice(),
+          // Tile B can be to the LEFT: A's left overlap matches B's right overlap
+          left: (byRight.get(sigA.leftOverlap) ?? []).slice(),
+          // Tile B can be to the RIGHT: A's right overlap matches B's left overlap
+          right: (byLeft.get(sigA.rightOverlap) ?? []).slice()
+        });
+      }
+
+      return neighbors;
+    }
+
+    /**
+     * Pixels shared by two adjacent tiles: tileSize - 1 for overlapping patterns, 0 for simple tiles
+     */
+    getOverlap(): number {
+      const tileSize = this.tiles[0]?.pixelData.width ?? 0;
+      return this.model === 'overlapping' ? Math.max(0, tileSize - 1) : 0;
+    }
+
+    /**
+     * IDs of tiles whose anchor (top-left) pixel has exactly this color.
+     * In the overlapping model that pixel is what a cell contributes to the output.
+     */
+    getTilesWithAnchorColor(color: RGBAColor): number[] {
+      return this.tiles
+        .filter(tile => {
+          const data = tile.pixelData.data;
+          return data[0] === color[0] && data[1] === color[1] && data[2] === color[2] && data[3] === color[3];
+        })
+        .map(tile => tile.id);
+    }
+
+    /**
+     * Get all tiles
+     */
+    getTiles(): Tile[] {
+      return this.tiles;
+    }
+
+    /**
+     * Get adjacency rules for all tiles
+     */
+    getAdjacencyRules(): Map<number, AdjacencyRules> {
+      return this.neighbors;
+    }
+
+  /**
+   * Get tile frequencies (how many times each tile appeared in the sample)
+   */
+  getTileFrequencies(): Map<number, number> {
+    return this.tileFrequencies;
+  }
+
+  /**
+   * Portable form; rules are stored as computed, so loading never re-derives them
+   */
+  toJSON(): SerializedTileSet {
+    return {
+      format: 'wfc-tileset',
+      version: 1,
+      model: this.model,
+      tileSize: this.tiles[0]?.pixelData.width ?? 0,
+      ...(this.source && { source: this.source }),
+      ...(this.extraction && { extraction: this.extraction }),
+      tiles: this.tiles.map(tile => {
+        const rules = this.neighbors.get(tile.id);
+        return {
+          id: tile.id,
+          pixels: encodeBase64(tile.pixelData.data),
+          frequency: this.tileFrequencies.get(tile.id) ?? 0,
+          rules: {
+            up: rules?.up.slice() ?? [],
+            down: rules?.down.slice() ?? [],
+            left: rules?.left.slice() ?? [],
+            right: rules?.right.slice() ?? []
+          }
+        };
+      })
+    };
+  }
+
+  /**
+   * Validate an untrusted serialized tileset (e.g. parsed JSON) and rebuild it
+   */
+  static fromJSON(value: unknown): TileSet {
+    if (typeof value !== 'object' || value === null) {
+      throw new Error('Tileset file must contain an object');
+    }
+    const raw = value as Record<string, unknown>;
+    if (raw.format !== 'wfc-tileset') {
+      throw new Error('Not a tileset file (expected format "wfc-tileset")');
+    }
+    if (raw.version !== 1) {
+      throw new Error(`Unsupported tileset version ${String(raw.version)}`);
+    }
+    if (raw.model !== 'overlapping' && raw.model !== 'simple') {
+      throw new Error(`Unknown tile model "${String(raw.model)}"`);
+    }
+    const tileSize = raw.tileSize;
+    if (typeof tileSize !== 'number' || !Number.isInteger(tileSize) || tileSize < 1) {
+      throw new Error('Tileset "tileSize" must be a positive integer');
+    }
+    if (!Array.isArray(raw.tiles) || raw.tiles.length === 0) {
+      throw new Error('Tileset needs a non-empty "tiles" array');
+    }
+
+    const tiles: Tile[] = [];
+    const frequencies = new Map<number, number>();
+    const rules = new Map<number, AdjacencyRules>();
+    for (const [i, entry] of raw.tiles.entries()) {
+      const { id, pixels, frequency, rules: tileRules } = (entry ?? {}) as Record<string, unknown>;
+      if (typeof id !== 'number' || !Number.isInteger(id) || rules.has(id)) {
+        throw new Error(`Tile ${i} needs a unique integer "id"`);
+      }
+      if (typeof pixels !== 'string') {
+        throw new Error(`Tile ${id} has no pixel data`);
+      }
+      const data = decodeBase64(pixels);
+      if (data.length !== tileSize * tileSize * 4) {
+        throw new Error(`Tile ${id} has ${data.length} bytes of pixel data, expected ${tileSize * tileSize * 4}`);
+      }
+      if (typeof frequency !== 'number' || !(frequency >= 0)) {
+        throw new Error(`Tile ${id} needs a non-negative "frequency"`);
+      }
+      const parsedRules = {} as AdjacencyRules;
+      for (const direction of DIRECTIONS) {
+        const list = (tileRules as Record<string, unknown> | undefined)?.[direction];
+        if (!Array.isArray(list) || !list.every(n => typeof n === 'number')) {
+          throw new Error(`Tile ${id} needs a "${direction}" list of neighbor IDs`);
+        }
+        parsedRules[direction] = list as number[];
+      }
+
+      tiles.push({ id, pixelData: { width: tileSize, height: tileSize, data } });
+      frequencies.set(id, frequency);
+      rules.set(id, parsedRules);
+    }
+
+    for (const [id, tileRules] of rules) {
+      for (const direction of DIRECTIONS) {
+        const unknown = tileRules[direction].find(n => !rules.has(n));
+        if (unknown !== undefined) {
+          throw new Error(`Tile ${id} lists unknown tile ${unknown} as a "${direction}" neighbor`);
+        }
+      }
+    }
+
+    return new TileSet(tiles, frequencies, {
+      model: raw.model,
+      rules,
+      source: parseSource(raw.source),
+      extraction: parseExtraction(raw.extraction)
+    });
+  }
+}
+
+/**
+ * Sample metadata from a tileset file. It is informational only, so a malformed entry is dropped rather than rejected.
+ */
+function parseSource(value: unknown): TileSetSource | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { name, hash, width, height } = value as Record<string, unknown>;
+  if (typeof name !== 'string') return undefined;
+  const source: TileSetSource = { name };
+  if (typeof hash === 'string') source.hash = hash;
+  if (typeof width === 'number' && Number.isInteger(width) && width > 0) source.width = width;
+  if (typeof height === 'number' && Number.isInteger(height) && height > 0) source.height = height;
+  return source;
+}
+
+/**
+ * Extraction options from a tileset file; unknown or malformed values are dropped
+ */
+function parseExtraction(value: unknown): ExtractionOptions | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { symmetry, periodicInput } = value as Record<string, unknown>;
+  const extraction: ExtractionOptions = {};
+  if (SYMMETRY_OPTIONS.includes(symmetry as Symmetry)) extraction.symmetry = symmetry as Symmetry;
+  if (typeof periodicInput === 'boolean') extraction.periodicInput = periodicInput;
+  return extraction;
+}
+
+/**
+ * Base64 without Buffer, so it works in browsers, workers and Node
+ */
+function encodeBase64(bytes: Uint8ClampedArray): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8ClampedArray {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch {
+    throw new Error('Tile pixel data is not valid base64');
+  }
+  const bytes = new Uint8ClampedArray(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+  
\ No newline at end of file
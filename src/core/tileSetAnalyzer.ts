@@ -0,0 +1,183 @@
+import { Direction, TileSet } from './tileSet';
+
+const DIRECTIONS: readonly Direction[] = ['up', 'down', 'left', 'right'];
+const OPPOSITE: Record<Direction, Direction> = { up: 'down', down: 'up', left: 'right', right: 'left' };
+
+/**
+ * B is listed as A's neighbor in some direction, but A is not listed as B's neighbor the other way
+ */
+export interface AsymmetricRule {
+  tileId: number;
+  direction: Direction;
+  neighborId: number;
+}
+
+export interface TileSetAnalysis {
+  /** Tiles with an empty neighbor list, by the directions that are empty */
+  deadEnds: Map<number, Direction[]>;
+  asymmetricRules: AsymmetricRule[];
+  /** Tiles no other tile lists as a neighbor in any direction */
+  unreachable: number[];
+  /**
+   * Tiles left after repeatedly removing tiles with no remaining neighbor in some direction.
+   * Only these can fill a periodic output or a cell far from the border.
+   */
+  viable: number[];
+  /** Strongly connected components of the rule graph (A → B when B may neighbor A), largest first */
+  components: number[][];
+  /** Human-readable problems per tile, for highlighting */
+  problems: Map<number, string[]>;
+  /** Reasons a run will probably fail; empty when nothing stands out */
+  warnings: string[];
+}
+
+/**
+ * Check a tileset's adjacency rules for problems that make generation fail or skew it
+ */
+export function analyzeTileSet(tileSet: TileSet): TileSetAnalysis {
+  const rules = tileSet.getAdjacencyRules();
+  const ids = tileSet.getTiles().map(tile => tile.id);
+  const problems = new Map<number, string[]>();
+  const report = (id: number, problem: string) => {
+    const list = problems.get(id);
+    if (list) list.push(problem);
+    else problems.set(id, [problem]);
+  };
+
+  const deadEnds = new Map<number, Direction[]>();
+  for (const id of ids) {
+    const empty = DIRECTIONS.filter(direction => (rules.get(id)?.[direction].length ?? 0) === 0);
+    if (empty.length > 0) {
+      deadEnds.set(id, empty);
+      report(id, `no neighbor ${empty.join(', ')}`);
+    }
+  }
+
+  const asymmetricRules: AsymmetricRule[] = [];
+  for (const id of ids) {
+    for (const direction of DIRECTIONS) {
+      for (const neighborId of rules.get(id)?.[direction] ?? []) {
+        if (!rules.get(neighborId)?.[OPPOSITE[direction]].includes(id)) {
+          asymmetricRules.push({ tileId: id, direction, neighborId });
+          report(id, `allows ${neighborId} ${direction}, but not the reverse`);
+        }
+      }
+    }
+  }
+
+  const successors = new Map<number, number[]>();
+  const incoming = new Map<number, number>(ids.map(id => [id, 0]));
+  for (const id of ids) {
+    const targets = new Set<number>();
+    for (const direction of DIRECTIONS) {
+      for (const neighborId of rules.get(id)?.[direction] ?? []) targets.add(neighborId);
+    }
+    successors.set(id, Array.from(targets));
+    for (const target of targets) {
+      if (target !== id) incoming.set(target, (incoming.get(target) ?? 0) + 1);
+    }
+  }
+  const unreachable = ids.filter(id => incoming.get(id) === 0);
+  for (const id of unreachable) report(id, 'no other tile leads to it');
+
+  const viable = viableTiles(tileSet);
+  const viableSet = new Set(viable);
+  for (const id of ids) {
+    if (!viableSet.has(id) && !deadEnds.has(id)) report(id, 'can only appear near the output border');
+  }
+
+  const components = stronglyConnectedComponents(ids, successors).sort((a, b) => b.length - a.length);
+
+  const warnings: string[] = [];
+  if (viable.length === 0) {
+    warnings.push('No tile can be surrounded on all four sides, so periodic or larger outputs will fail');
+  }
+  if (asymmetricRules.length > 0) {
+    warnings.push(`${asymmetricRules.length} adjacency rules are one-sided, so propagation may miss conflicts`);
+  }
+
+  return { deadEnds, asymmetricRules, unreachable, viable, components, problems, warnings };
+}
+
+/**
+ * Repeatedly drop tiles that have no remaining neighbor in some direction
+ */
+function viableTiles(tileSet: TileSet): number[] {
+  const rules = tileSet.getAdjacencyRules();
+  const alive = new Set(tileSet.getTiles().map(tile => tile.id));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of Array.from(alive)) {
+      const supported = DIRECTIONS.every(direction =>
+        (rules.get(id)?.[direction] ?? []).some(neighborId => alive.has(neighborId))
+      );
+      if (!supported) {
+        alive.delete(id);
+        changed = true;
+      }
+    }
+  }
+  return Array.from(alive);
+}
+
+/**
+ * Tarjan's algorithm, iterative so large tilesets don't overflow the call stack
+ */
+function stronglyConnectedComponents(ids: number[], successors: Map<number, number[]>): number[][] {
+  const index = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  for (const root of ids) {
+    if (index.has(root)) continue;
+    // Each frame is a node and how many of its successors have been visited
+    const frames: [number, number][] = [[root, 0]];
+    index.set(root, counter);
+    lowLink.set(root, counter++);
+    stack.push(root);
+    onStack.add(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const [node, next] = frame;
+      const targets = successors.get(node) ?? [];
+
+      if (next < targets.length) {
+        frame[1]++;
+        const target = targets[next];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter++);
+          stack.push(target);
+          onStack.add(target);
+          frames.push([target, 0]);
+        } else if (onStack.has(target)) {
+          lowLink.set(node, Math.min(lowLink.get(node)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1][0];
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(node)!));
+      }
+      if (lowLink.get(node) === index.get(node)) {
+        const component: number[] = [];
+        let member: number;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
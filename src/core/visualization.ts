@@ -0,0 +1,46 @@
+import { RGBAColor } from './image';
+
+/**
+ * How partial renders show cells that are not collapsed yet:
+ * - gray: flat gray
+ * - average: average color of the remaining tiles
+ * - entropy: heatmap of the cell's entropy, relative to a cell with every tile possible
+ * - domain-size: heatmap of how many tiles remain
+ * - backtracking: average colors, with the last contradiction in red and the cells the
+ *   latest backtrack restored tinted blue
+ */
+export type VisualizationMode = 'gray' | 'average' | 'entropy' | 'domain-size' | 'backtracking';
+
+export const VISUALIZATION_MODES: readonly VisualizationMode[] = [
+  'gray',
+  'average',
+  'entropy',
+  'domain-size',
+  'backtracking'
+];
+
+export const CONTRADICTION_COLOR: RGBAColor = [0xdc, 0x35, 0x45, 0xff];
+export const BACKTRACK_COLOR: RGBAColor = [0x33, 0x66, 0xff, 0xff];
+
+// Dark purple through magenta to yellow, readable for color-blind viewers
+const HEAT_STOPS: readonly RGBAColor[] = [
+  [0x0d, 0x08, 0x87, 0xff],
+  [0xcc, 0x47, 0x78, 0xff],
+  [0xf0, 0xf9, 0x21, 0xff]
+];
+
+/**
+ * Heatmap color for a value between 0 (cold) and 1 (hot)
+ */
+export function heatColor(value: number): RGBAColor {
+  const scaled = Math.min(1, Math.max(0, value)) * (HEAT_STOPS.length - 1);
+  const i = Math.min(HEAT_STOPS.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const [a, b] = [HEAT_STOPS[i], HEAT_STOPS[i + 1]];
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * f),
+    Math.round(a[1] + (b[1] - a[1]) * f),
+    Math.round(a[2] + (b[2] - a[2]) * f),
+    0xff
+  ];
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { extractPatterns } from './patternExtractor';
+import { TileSet } from './tileSet';
+import { PropagationMode, WFCGenerator, WFCResult } from './wfcGenerator';
+import { loadSample } from '../test/samples';
+
+const SEEDS = [1, 2, 3, 4, 5];
+
+/**
+ * Every horizontal and vertical pair of cells must be allowed by the adjacency rules
+ */
+function expectValid(tileSet: TileSet, result: WFCResult): void {
+  const rules = tileSet.getAdjacencyRules();
+  const rows = result.tileIds;
+  for (let y = 0; y < rows.length; y++) {
+    for (let x = 0; x < rows[y].length; x++) {
+      const allowed = rules.get(rows[y][x])!;
+      if (x + 1 < rows[y].length) expect(allowed.right).toContain(rows[y][x + 1]);
+      if (y + 1 < rows.length) expect(allowed.down).toContain(rows[y + 1][x]);
+    }
+  }
+}
+
+async function totalBacktracks(tileSet: TileSet, propagation: PropagationMode): Promise<number> {
+  let backtracks = 0;
+  for (const seed of SEEDS) {
+    const generator = new WFCGenerator(tileSet, 12, 12, { seed, propagation });
+    const result = await generator.generate();
+    expectValid(tileSet, result);
+    backtracks += result.stats.backtracks;
+  }
+  return backtracks;
+}
+
+describe('WFCGenerator propagation', () => {
+  for (const sample of ['Rooms', 'Knot']) {
+    it(`needs fewer backtracks on ${sample} with support counters than with collapsed-neighbor filtering`, async () => {
+      const { patterns, frequencies } = extractPatterns(loadSample(sample), 3, { symmetry: 8 });
+      const tileSet = new TileSet(patterns, frequencies);
+
+      const full = await totalBacktracks(tileSet, 'arc-consistency');
+      const collapsedOnly = await totalBacktracks(tileSet, 'collapsed-neighbors');
+
+      expect(collapsedOnly).toBeGreaterThan(0);
+      expect(full).toBeLessThan(collapsedOnly);
+    });
+  }
+});
+
+describe('WFCGenerator backjumping', () => {
+  // 1×1 tiles with hand-picked rules; on this grid and seed the first dead end at (0, 1)
+  // depends on the decision at (3, 0) only through tiles propagation removed in between
+  const right = [[1, 2, 3], [1, 5], [0, 2, 3], [0], [2, 3], [5]];
+  const down = [[3, 4], [0, 1, 3], [5], [1, 2], [0, 1, 2, 4], [0, 2, 5]];
+
+  function propagationTileSet(): TileSet {
+    const rules = new Map(right.map((_, id) => [id, { up: [] as number[], down: down[id], left: [] as number[], right: right[id] }]));
+    rules.forEach((allowed, id) => {
+      allowed.right.forEach(other => rules.get(other)!.left.push(id));
+      allowed.down.forEach(other => rules.get(other)!.up.push(id));
+    });
+    const tiles = right.map((_, id) => ({ id, pixelData: { width: 1, height: 1, data: new Uint8ClampedArray([id * 40, 0, 0, 255]) } }));
+    return new TileSet(tiles, undefined, { model: 'simple', rules });
+  }
+
+  it('does not jump past a decision that reached the conflict through propagation', () => {
+    const generator = new WFCGenerator(propagationTileSet(), 4, 4, {
+      seed: 451651,
+      backjumping: true,
+      cellSelection: 'top-to-bottom'
+    });
+    generator.beginStepping();
+    const steps = Array.from({ length: 7 }, () => generator.step());
+
+    expect(steps[5]).toMatchObject({ kind: 'decision', x: 0, y: 1 });
+    // Counting only the levels that removed tiles in the conflicting cells jumps to (0, 0)
+    expect(steps[6]).toMatchObject({ kind: 'backtrack', x: 3, y: 0 });
+  });
+
+  it('finds a valid output on that grid with no more backtracks than chronological search', async () => {
+    const tileSet = propagationTileSet();
+    const options = { seed: 451651, cellSelection: 'top-to-bottom' } as const;
+    const chronological = await new WFCGenerator(tileSet, 4, 4, options).generate();
+    const jumping = await new WFCGenerator(tileSet, 4, 4, { ...options, backjumping: true }).generate();
+
+    expectValid(tileSet, jumping);
+    expect(jumping.stats.backtracks).toBeLessThanOrEqual(chronological.stats.backtracks);
+  });
+});
@@ -0,0 +1,1490 @@
+import { TileSet, Tile } from './tileSet';
+import { RGBAColor, RGBAImage } from './image';
+import { BORDER_EDGES, BorderEdge } from './border';
+import { RandomFn, RandomFactory, createRandom, randomSeed, weightedIndex } from './random';
+import { CellSelectionName, CellSelectionStrategy, SelectionView, createCellSelection } from './cellSelection';
+import { BACKTRACK_COLOR, CONTRADICTION_COLOR, VisualizationMode, heatColor } from './visualization';
+import { GridPatch, GridRenderer } from './gridRenderer';
+
+interface Cell {
+  x: number;
+  y: number;
+  collapsed: boolean;
+  tileId: number | null;
+  possibleTiles: Set<number>;
+}
+
+/**
+ * One collapse decision on the search stack
+ */
+interface Decision {
+  cellIndex: number;
+  tileId: number;
+  /** Trail length before the decision; undoing to it restores the state the decision was made in */
+  mark: number;
+  /** Tiles already tried here and proven to fail (nogoods), banned again on every retry */
+  refuted: number[];
+  /** Earlier decision levels its conflicts depend on, directly or through propagation (backjumping) */
+  conflictLevels: Set<number>;
+  /** Domain size when the cell was picked; 1 means propagation had already decided it */
+  choices: number;
+}
+
+/** Direction order used by the propagator tables */
+const DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+const OPPOSITE = [1, 0, 3, 2];
+const DX = [0, 0, -1, 1];
+const DY = [-1, 1, 0, 0];
+
+/**
+ * Restricts one cell to a set of tiles before generation starts
+ */
+export interface CellConstraint {
+  x: number;
+  y: number;
+  tileIds: number[];
+}
+
+/**
+ * Tiles allowed along each edge of the grid, and tiles kept off the rest of it.
+ * An edge is the outermost row or column of cells, with periodic output too;
+ * corner cells must satisfy both of their edges.
+ */
+export interface BorderConstraints {
+  top?: number[];
+  bottom?: number[];
+  left?: number[];
+  right?: number[];
+  /** Banned from every cell that isn't on a constrained edge, e.g. a ground pattern that may only appear at the bottom */
+  interiorBans?: number[];
+}
+
+/**
+ * Where per-tile weights come from. They drive both the collapse choice and cell entropy.
+ * - frequency: occurrences in the sample (or the tileset's declared weights)
+ * - connectivity: number of allowed neighbors over all directions
+ * - uniform: every tile equally likely
+ * - custom: WFCOptions.customWeights
+ */
+export type WeightingStrategy = 'frequency' | 'connectivity' | 'uniform' | 'custom';
+
+export const WEIGHTING_STRATEGIES: readonly WeightingStrategy[] = ['frequency', 'connectivity', 'uniform', 'custom'];
+
+/**
+ * How far a removed tile's consequences reach.
+ * - arc-consistency: AC-4, every neighbor must still support a tile, transitively
+ * - collapsed-neighbors: only cells next to a collapsed cell are filtered, the generator's
+ *   behavior before AC-4; kept to measure what full propagation saves
+ */
+export type PropagationMode = 'arc-consistency' | 'collapsed-neighbors';
+
+export interface WFCOptions {
+  /** Seed for every random decision; a fresh one is picked when omitted */
+  seed?: number;
+  /** PRNG factory, defaults to mulberry32 */
+  createRandom?: RandomFactory;
+  /** Wrap the grid in both axes so the output tiles seamlessly */
+  periodic?: boolean;
+  /** Cells fixed or narrowed before generation; propagated first and kept through backtracking */
+  constraints?: CellConstraint[];
+  /** Tiles allowed along the grid's edges and banned inside it; kept through backtracking like cell constraints */
+  borders?: BorderConstraints;
+  /** How tiles are weighted, defaults to 'frequency' so outputs follow the sample's statistics */
+  weighting?: WeightingStrategy;
+  /** Weight per tile ID for the 'custom' strategy; tiles left out weigh 1 */
+  customWeights?: Map<number, number>;
+  /** Which cell to collapse next: a built-in strategy name or a custom strategy, defaults to 'min-entropy' */
+  cellSelection?: CellSelectionName | CellSelectionStrategy;
+  /** Defaults to 'arc-consistency' */
+  propagation?: PropagationMode;
+  /**
+   * On a dead end, jump back to the latest decision that caused the conflict instead of the previous one.
+   * Conflicts are traced through propagation, so a jump never skips a decision that could have fixed them.
+   */
+  backjumping?: boolean;
+  /** How partial renders draw undecided cells, defaults to 'average' */
+  visualization?: VisualizationMode;
+}
+
+/**
+ * Wall time in milliseconds spent in each phase of a run
+ */
+export interface WFCTimings {
+  initialization: number;
+  selection: number;
+  /** Collapsing cells and propagating the consequences */
+  propagation: number;
+  backtracking: number;
+  /** Partial frames and the final image */
+  rendering: number;
+  total: number;
+}
+
+export interface WFCStats {
+  decisions: number;
+  contradictions: number;
+  backtracks: number;
+  /** Most decisions undone by a single backtrack */
+  maxRollbackDepth: number;
+  /** Tile removals processed by the propagator */
+  propagationSteps: number;
+  timings: WFCTimings;
+}
+
+/**
+ * What one debugger step did: collapsed a cell, undid a failed decision and retried it, or found the grid complete
+ */
+export interface WFCStep {
+  kind: 'decision' | 'backtrack' | 'done';
+  /** Cell collapsed or retried; absent when done */
+  x?: number;
+  y?: number;
+  tileId?: number;
+}
+
+/**
+ * How a cell got its current domain:
+ * - decision: collapsed by a choice among several tiles
+ * - forced: propagation left a single tile
+ * - constraint: pinned before generation
+ * - contradiction: no tile left
+ * - open: still several tiles possible
+ */
+export type CellOrigin = 'decision' | 'forced' | 'constraint' | 'contradiction' | 'open';
+
+export interface CellInspection {
+  x: number;
+  y: number;
+  collapsed: boolean;
+  tileId: number | null;
+  possibleTiles: number[];
+  entropy: number;
+  origin: CellOrigin;
+  /** Decision level (1-based) of the decision that collapsed this cell, if any */
+  decisionLevel: number | null;
+}
+
+export interface WFCResult {
+  imageData: RGBAImage;
+  /** Collapsed tile ID of every cell, indexed [y][x] */
+  tileIds: number[][];
+  /** Seed that produced this output, pass it back in to reproduce it */
+  seed: number;
+  stats: WFCStats;
+}
+
+export class WFCGenerator {
+  private gridWidth: number;
+  private gridHeight: number;
+  private tileSet: TileSet;
+  private adjacencyRules: Map<number, { up: number[]; down: number[]; left: number[]; right: number[] }>;
+  private grid: Cell[][] = [];
+  private tileSize: number;
+  private overlapSize: number;
+  // Weight of each tile ID under the chosen weighting strategy
+  private tileWeights: Map<number, number>;
+  // Decision stack; decisions[i] is at level i + 1, level 0 is the state before any decision
+  private decisions: Decision[] = [];
+  // Decisions undone by stepBack, replayed (latest last) by the next steps
+  private redo: Decision[] = [];
+  // Undo log: 2e = entry e (cellIndex * T + t) was banned, 2e + 1 = entry e's removal was propagated
+  private trail: number[] = [];
+  // Decision level at which each entry was banned, to find the culprits of a conflict
+  private banLevel: Int32Array = new Int32Array(0);
+  // Why each removal happened: -1 for a decision, pin or the initial state, otherwise the direction
+  // whose support counter ran out, i.e. the removals in the neighbor on the opposite side caused it
+  private banReason: Int8Array = new Int8Array(0);
+  // Entries already visited by the current conflict analysis, by analysis number
+  private explained: Int32Array = new Int32Array(0);
+  private explanation = 0;
+  // wave[cellIndex * T + t] is 1 while t is still possible in that cell
+  private wave: Uint8Array = new Uint8Array(0);
+  // Cell whose domain the last ban emptied, or -1
+  private conflictCell = -1;
+  // Conflict the latest backtrack started from, and the cells its undo restored, for visualization
+  private lastConflict = -1;
+  private touched: Uint8Array = new Uint8Array(0);
+  private touchedCells: number[] = [];
+  private visualization: VisualizationMode;
+  // Persistent output image; only cells marked dirty since the last frame are redrawn
+  private renderer: GridRenderer | null = null;
+  private dirty: Uint8Array = new Uint8Array(0);
+  private dirtyCells: number[] = [];
+  // Mode the image was last drawn in, null when every cell has to be redrawn
+  private renderedMode: VisualizationMode | null = null;
+  // Cells tinted by the last backtracking overlay, redrawn before the next one
+  private overlayCells: number[] = [];
+  // Cells redrawn since the last takeRenderPatch()
+  private patched: Uint8Array = new Uint8Array(0);
+  private patchCells: number[] = [];
+  // Entropy of a cell with every tile possible, the top of the entropy heatmap
+  private maxEntropy: number;
+  private backjumping: boolean;
+  private propagation: PropagationMode;
+  // Cells collapsed since the last propagation, to filter their neighbors in 'collapsed-neighbors' mode
+  private collapsedQueue: number[] = [];
+  private stats: WFCStats = WFCGenerator.emptyStats();
+  private debug: boolean = false;
+  private cellSelection: CellSelectionStrategy;
+  private selectionView: SelectionView;
+  private seed: number;
+  private createRandom: RandomFactory;
+  private random: RandomFn;
+  private periodic: boolean;
+  // Tiles are addressed by their position in tileIds inside the propagation tables
+  private tileIds: number[];
+  private tileIndex: Map<number, number>;
+  // propagator[d][t] = tile indices allowed in direction d of tile index t
+  private propagator: number[][][];
+  // supporters[d][t2] = tile indices t1 whose propagator[d][t1] lists t2; what counter d of t2 counts
+  private supporters: number[][][];
+  // AC-4 support counters: compatible[(cellIndex * T + t) * 4 + d] = how many tiles still
+  // possible in the neighbor opposite to d allow t here. t is banned when any counter hits 0.
+  private compatible: Int32Array = new Int32Array(0);
+  private initialCompatible: Int32Array;
+  // Pending (cellIndex * T + t) removals whose consequences haven't been propagated yet
+  private removalQueue: number[] = [];
+  // Allowed tile IDs per constrained cell index
+  private cellConstraints = new Map<number, Set<number>>();
+  // Allowed tile IDs per constrained edge, and tile IDs banned off the constrained edges
+  private borders = new Map<BorderEdge, Set<number>>();
+  private interiorBans = new Set<number>();
+
+  constructor(tileSet: TileSet, gridWidth: number, gridHeight: number, options: WFCOptions = {}) {
+    this.tileSet = tileSet;
+    this.gridWidth = gridWidth;
+    this.gridHeight = gridHeight;
+    this.seed = options.seed ?? randomSeed();
+    this.createRandom = options.createRandom ?? createRandom;
+    this.random = this.createRandom(this.seed);
+    this.periodic = options.periodic ?? false;
+    this.backjumping = options.backjumping ?? false;
+    this.propagation = options.propagation ?? 'arc-consistency';
+    this.adjacencyRules = tileSet.getAdjacencyRules();
+    this.tileSize = tileSet.getTiles()[0]?.pixelData.width || 3;
+    this.overlapSize = tileSet.getOverlap(); // Overlap model shares tileSize-1 pixels, simple tiles none
+    this.tileWeights = this.computeTileWeights(options.weighting ?? 'frequency', options.customWeights);
+    this.visualization = options.visualization ?? 'average';
+    const cellSelection = options.cellSelection ?? 'min-entropy';
+    this.cellSelection = typeof cellSelection === 'string' ? createCellSelection(cellSelection) : cellSelection;
+    this.selectionView = {
+      width: gridWidth,
+      height: gridHeight,
+      isCollapsed: (x, y) => this.grid[y][x].collapsed,
+      entropy: (x, y) => this.cellEntropy(this.grid[y][x])
+    };
+    this.tileIds = tileSet.getTiles().map((t: Tile) => t.id);
+    this.tileIndex = new Map(this.tileIds.map((id, i) => [id, i]));
+    this.maxEntropy = this.entropy(this.tileIds, this.tileIds.length);
+    this.propagator = this.buildPropagator();
+    this.supporters = this.buildSupporters();
+    this.initialCompatible = this.countInitialSupports();
+    for (const { x, y, tileIds } of options.constraints ?? []) {
+      this.restrictCell(x, y, tileIds);
+    }
+    const { interiorBans, ...edges } = options.borders ?? {};
+    for (const edge of BORDER_EDGES) {
+      const tileIds = edges[edge];
+      if (tileIds) this.restrictBorder(edge, tileIds);
+    }
+    this.banFromInterior(interiorBans ?? []);
+    this.initializeGrid();
+  }
+
+  /**
+   * Fix a cell to a single tile
+   */
+  pinTile(x: number, y: number, tileId: number): void {
+    this.restrictCell(x, y, [tileId]);
+  }
+
+  /**
+   * Restrict a cell to the patterns whose anchor pixel is the given color
+   */
+  restrictToColor(x: number, y: number, color: RGBAColor): void {
+    this.restrictCell(x, y, this.tileSet.getTilesWithAnchorColor(color));
+  }
+
+  /**
+   * Restrict a cell to a set of tiles. Repeated calls on the same cell intersect.
+   * Takes effect at the start of the next generate().
+   */
+  restrictCell(x: number, y: number, tileIds: Iterable<number>): void {
+    if (x < 0 || y < 0 || x >= this.gridWidth || y >= this.gridHeight) {
+      throw new Error(`Cell (${x}, ${y}) is outside the ${this.gridWidth}×${this.gridHeight} grid`);
+    }
+    const index = this.cellIndex(x, y);
+    const allowed = new Set(tileIds);
+    const existing = this.cellConstraints.get(index);
+    this.cellConstraints.set(index, existing ? new Set([...existing].filter(id => allowed.has(id))) : allowed);
+  }
+
+  /**
+   * Restrict every cell along one edge of the grid to a set of tiles. Repeated calls on the same edge intersect.
+   * Takes effect at the start of the next generate().
+   */
+  restrictBorder(edge: BorderEdge, tileIds: Iterable<number>): void {
+    const allowed = new Set(tileIds);
+    const existing = this.borders.get(edge);
+    this.borders.set(edge, existing ? new Set([...existing].filter(id => allowed.has(id))) : allowed);
+  }
+
+  /**
+   * Keep tiles out of every cell that isn't on a constrained edge.
+   * Takes effect at the start of the next generate().
+   */
+  banFromInterior(tileIds: Iterable<number>): void {
+    for (const id of tileIds) {
+      this.interiorBans.add(id);
+    }
+  }
+
+  /**
+   * Remove all cell and border constraints
+   */
+  clearConstraints(): void {
+    this.cellConstraints.clear();
+    this.borders.clear();
+    this.interiorBans.clear();
+  }
+
+  /**
+   * Current cell constraints
+   */
+  getConstraints(): CellConstraint[] {
+    return Array.from(this.cellConstraints, ([index, allowed]) => ({
+      x: index % this.gridWidth,
+      y: Math.floor(index / this.gridWidth),
+      tileIds: Array.from(allowed)
+    }));
+  }
+
+  /**
+   * Current border constraints
+   */
+  getBorders(): BorderConstraints {
+    const borders: BorderConstraints = {};
+    for (const [edge, allowed] of this.borders) {
+      borders[edge] = Array.from(allowed);
+    }
+    if (this.interiorBans.size > 0) {
+      borders.interiorBans = Array.from(this.interiorBans);
+    }
+    return borders;
+  }
+
+  /**
+   * Translate the ID-based adjacency rules into index-based lookup tables
+   */
+  private buildPropagator(): number[][][] {
+    return DIRECTIONS.map(direction =>
+      this.tileIds.map(id => {
+        const allowed = this.adjacencyRules.get(id)?.[direction] ?? [];
+        return allowed
+          .map(neighborId => this.tileIndex.get(neighborId))
+          .filter((index): index is number => index !== undefined);
+      })
+    );
+  }
+
+  /**
+   * Invert the propagator, so a removal caused by propagation can be traced to the removals behind it
+   */
+  private buildSupporters(): number[][][] {
+    return this.propagator.map(table => {
+      const supporters: number[][] = this.tileIds.map(() => []);
+      table.forEach((allowed, t1) => {
+        for (const t2 of allowed) supporters[t2].push(t1);
+      });
+      return supporters;
+    });
+  }
+
+  /**
+   * Support counters for an unconstrained cell: for each tile and direction d,
+   * the number of tiles that list it as allowed in direction d.
+   */
+  private countInitialSupports(): Int32Array {
+    const counts = new Int32Array(this.tileIds.length * 4);
+    for (let d = 0; d < 4; d++) {
+      for (const allowed of this.propagator[d]) {
+        for (const t2 of allowed) {
+          counts[t2 * 4 + d]++;
+        }
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Get the seed driving this generator's random decisions
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Statistics of the latest generate() call, also available after it failed
+   */
+  getStats(): WFCStats {
+    return this.stats;
+  }
+
+  /**
+   * Change how partial renders draw undecided cells; takes effect on the next frame, also mid-run
+   */
+  setVisualization(mode: VisualizationMode): void {
+    this.visualization = mode;
+  }
+
+  private static emptyStats(): WFCStats {
+    return {
+      decisions: 0,
+      contradictions: 0,
+      backtracks: 0,
+      maxRollbackDepth: 0,
+      propagationSteps: 0,
+      timings: { initialization: 0, selection: 0, propagation: 0, backtracking: 0, rendering: 0, total: 0 }
+    };
+  }
+
+  /**
+   * Run fn and add its wall time to a phase
+   */
+  private timed<T>(phase: Exclude<keyof WFCTimings, 'total'>, fn: () => T): T {
+    const start = performance.now();
+    try {
+      return fn();
+    } finally {
+      this.stats.timings[phase] += performance.now() - start;
+    }
+  }
+
+  /**
+   * Package the finished grid
+   */
+  private buildResult(startTime: number): WFCResult {
+    const imageData = this.timed('rendering', () => this.render());
+    this.stats.timings.total = performance.now() - startTime;
+    return {
+      imageData,
+      tileIds: this.grid.map(row => row.map(cell => cell.tileId!)),
+      seed: this.seed,
+      stats: this.stats
+    };
+  }
+
+  /**
+   * Weight every tile according to the strategy
+   */
+  private computeTileWeights(strategy: WeightingStrategy, customWeights?: Map<number, number>): Map<number, number> {
+    const weights = new Map<number, number>();
+    const frequencies = this.tileSet.getTileFrequencies();
+
+    for (const tile of this.tileSet.getTiles()) {
+      let weight: number;
+      switch (strategy) {
+        case 'frequency':
+          weight = frequencies.get(tile.id) ?? 1;
+          break;
+        case 'connectivity': {
+          // Total number of valid neighbors, + 1 so isolated tiles stay possible
+          const rules = this.adjacencyRules.get(tile.id);
+          weight = rules ? rules.up.length + rules.down.length + rules.left.length + rules.right.length + 1 : 1;
+          break;
+        }
+        case 'uniform':
+          weight = 1;
+          break;
+        case 'custom':
+          if (!customWeights) {
+            throw new Error("Weighting 'custom' needs customWeights");
+          }
+          weight = customWeights.get(tile.id) ?? 1;
+          break;
+        default:
+          throw new Error(`Unknown weighting strategy: ${String(strategy)}`);
+      }
+      if (!Number.isFinite(weight) || weight < 0) {
+        throw new Error(`Tile ${tile.id} has invalid weight ${weight}`);
+      }
+      weights.set(tile.id, weight);
+    }
+
+    return weights;
+  }
+
+  /**
+   * Initialize grid with all tiles possible in each cell, then remove tiles
+   * that have no possible neighbor on a side where a neighbor exists
+   */
+  private initializeGrid(): void {
+    const tileCount = this.tileIds.length;
+    const entryCount = this.gridWidth * this.gridHeight * tileCount;
+    this.compatible = new Int32Array(entryCount * 4);
+    this.wave = new Uint8Array(entryCount).fill(1);
+    this.banLevel = new Int32Array(entryCount);
+    this.banReason = new Int8Array(entryCount);
+    this.explained = new Int32Array(entryCount);
+    this.explanation = 0;
+    this.removalQueue = [];
+    this.collapsedQueue = [];
+    this.decisions = [];
+    this.redo = [];
+    this.trail = [];
+    this.conflictCell = -1;
+    this.lastConflict = -1;
+    this.touched = new Uint8Array(this.gridWidth * this.gridHeight);
+    this.touchedCells = [];
+    this.dirty = new Uint8Array(this.gridWidth * this.gridHeight);
+    this.dirtyCells = [];
+    this.renderedMode = null;
+    this.patched = new Uint8Array(this.gridWidth * this.gridHeight);
+    this.patchCells = [];
+    this.cellSelection.reset?.();
+
+    for (let y = 0; y < this.gridHeight; y++) {
+      this.grid[y] = [];
+      for (let x = 0; x < this.gridWidth; x++) {
+        this.grid[y][x] = {
+          x,
+          y,
+          collapsed: false,
+          tileId: null,
+          possibleTiles: new Set(this.tileIds),
+        };
+        this.compatible.set(this.initialCompatible, this.cellIndex(x, y) * tileCount * 4);
+      }
+    }
+
+    for (let y = 0; y < this.gridHeight; y++) {
+      for (let x = 0; x < this.gridWidth; x++) {
+        const cell = this.grid[y][x];
+        for (let d = 0; d < 4; d++) {
+          // Supports for direction d come from the neighbor on the opposite side
+          if (this.neighborIndex(x, y, OPPOSITE[d]) < 0) continue;
+          for (let t = 0; t < tileCount; t++) {
+            if (this.initialCompatible[t * 4 + d] === 0 && cell.possibleTiles.has(this.tileIds[t])) {
+              this.ban(cell, t);
+            }
+          }
+        }
+      }
+    }
+
+    this.applyCellConstraints();
+    this.propagateConstraints();
+    // The initial state is the root of the search and is never undone
+    this.trail = [];
+  }
+
+  /**
+   * Narrow constrained cells before anything else. Since this runs on every
+   * (re)initialization, rollbacks can never undo a pin.
+   */
+  private applyCellConstraints(): void {
+    if (this.borders.size > 0 || this.interiorBans.size > 0) {
+      this.applyBorders();
+    }
+    for (const [index, allowed] of this.cellConstraints) {
+      const cell = this.grid[Math.floor(index / this.gridWidth)][index % this.gridWidth];
+      for (const id of Array.from(cell.possibleTiles)) {
+        if (!allowed.has(id)) {
+          this.ban(cell, this.tileIndex.get(id)!);
+        }
+      }
+      // A pin to a single tile is a fixed cell, not a decision to revisit
+      if (allowed.size === 1 && cell.possibleTiles.size === 1) {
+        cell.collapsed = true;
+        cell.tileId = cell.possibleTiles.values().next().value!;
+        this.markDirty(index);
+        this.collapsedQueue.push(index);
+      }
+    }
+  }
+
+  /**
+   * Main WFC generation loop.
+   * Restarts the PRNG from the seed, so repeated calls give identical output.
+   * Aborting the signal rejects with the signal's reason at the next iteration.
+   * onVisualize receives the same image every frame, updated in place; copy it to keep a frame.
+   */
+  async generate(
+    onProgress?: (iteration: number, maxIterations: number) => void,
+    onVisualize?: (imageData: RGBAImage) => void,
+    signal?: AbortSignal
+  ): Promise<WFCResult> {
+    signal?.throwIfAborted();
+    this.random = this.createRandom(this.seed);
+    this.stats = WFCGenerator.emptyStats();
+    const stats = this.stats;
+    const startTime = performance.now();
+    let lastYield = Date.now();
+    const cellCount = this.gridWidth * this.gridHeight;
+    // Backtracking is exact and complete, so the budget only bounds the time spent on huge searches
+    const maxBacktracks = Math.max(1000, cellCount * 10);
+    
+    try {
+      this.timed('initialization', () => this.initializeGrid());
+
+      // Searching can't fix a grid that is contradictory before any decision
+      this.checkInitialState();
+      
+      let iteration = 0;
+      
+      while (stats.backtracks < maxBacktracks) {
+        // Without visualization the loop never yields, so give abort events a chance to arrive
+        if (signal && Date.now() - lastYield > 16) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+          lastYield = Date.now();
+        }
+        signal?.throwIfAborted();
+
+        // Calculate progress based on collapsed cells, not iterations
+        if (onProgress && iteration % 5 === 0) {
+          onProgress(this.countCollapsedCells(), cellCount);
+        }
+        
+        const next = this.timed('selection', () => this.cellSelection.selectCell(this.selectionView, this.random));
+        
+        if (!next) {
+          onProgress?.(cellCount, cellCount);
+          return this.buildResult(startTime);
+        }
+        
+        this.timed('propagation', () => {
+          this.collapseCell(this.grid[next.y][next.x]);
+          this.propagateConstraints();
+        });
+        
+        // Visualize current state and allow browser to repaint
+        if (onVisualize && iteration % 2 === 0) {
+          const partialRender = this.timed('rendering', () => this.renderPartial());
+          if (partialRender) {
+            onVisualize(partialRender);
+            // Small delay to allow browser repaint
+            await new Promise(resolve => setTimeout(resolve, 1));
+            lastYield = Date.now();
+          }
+        }
+        
+        iteration++;
+        if (this.conflictCell < 0) continue;
+
+        stats.contradictions++;
+        stats.backtracks++;
+        // Only returns false once every alternative has been tried
+        if (!this.timed('backtracking', () => this.backtrack())) {
+          throw this.unsatisfiableError();
+        }
+      }
+    } finally {
+      stats.timings.total = performance.now() - startTime;
+    }
+    
+    throw new Error(
+      `Gave up after ${maxBacktracks} backtracks (${stats.contradictions} contradictions). ` +
+      `Try: (1) Smaller grid size, (2) Different tile size, or (3) Different sample image.`
+    );
+  }
+
+  /**
+   * Start a run driven one step at a time by step() and stepBack(), for debugging.
+   * Uses the same seed, constraints and search as generate().
+   */
+  beginStepping(): void {
+    this.random = this.createRandom(this.seed);
+    this.stats = WFCGenerator.emptyStats();
+    this.initializeGrid();
+    this.checkInitialState();
+  }
+
+  /**
+   * Advance by one decision. A decision that causes a contradiction is returned as is,
+   * so the conflict can be inspected; the following step backtracks.
+   * Throws when the search space is exhausted.
+   */
+  step(): WFCStep {
+    if (this.conflictCell >= 0) {
+      this.stats.contradictions++;
+      this.stats.backtracks++;
+      // The replay stack belongs to the path being abandoned
+      this.redo = [];
+      if (!this.backtrack()) {
+        throw this.unsatisfiableError();
+      }
+      return this.describeStep('backtrack', this.decisions[this.decisions.length - 1]);
+    }
+
+    const replay = this.redo.pop();
+    if (replay) {
+      this.replayDecision(replay);
+      return this.describeStep('decision', replay);
+    }
+
+    const next = this.cellSelection.selectCell(this.selectionView, this.random);
+    if (!next) {
+      return { kind: 'done' };
+    }
+    this.collapseCell(this.grid[next.y][next.x]);
+    this.propagateConstraints();
+    return this.describeStep('decision', this.decisions[this.decisions.length - 1]);
+  }
+
+  /**
+   * Undo the latest decision and everything it propagated. The next step() replays it.
+   * Returns false when there is nothing left to undo.
+   */
+  stepBack(): boolean {
+    const decision = this.decisions[this.decisions.length - 1];
+    if (!decision) return false;
+    this.clearTouched();
+    this.rollbackTo(this.decisions.length - 1);
+    this.redo.push(decision);
+    return true;
+  }
+
+  /**
+   * True once every cell is collapsed and no contradiction is pending
+   */
+  isComplete(): boolean {
+    return this.conflictCell < 0 && this.isFullyCollapsed();
+  }
+
+  /**
+   * Number of decisions currently on the search stack
+   */
+  getDecisionDepth(): number {
+    return this.decisions.length;
+  }
+
+  /**
+   * Current state of one cell, for debugging views
+   */
+  inspectCell(x: number, y: number): CellInspection {
+    const cell = this.grid[y][x];
+    const index = this.cellIndex(x, y);
+    const level = this.decisions.findIndex(decision => decision.cellIndex === index);
+    const size = cell.possibleTiles.size;
+
+    let origin: CellOrigin;
+    if (size === 0) {
+      origin = 'contradiction';
+    } else if (level >= 0) {
+      origin = this.decisions[level].choices > 1 ? 'decision' : 'forced';
+    } else if (
+      this.cellConstraints.get(index)?.size === 1 ||
+      this.constrainedEdgesAt(x, y).some(edge => edge.size === 1)
+    ) {
+      origin = 'constraint';
+    } else {
+      origin = size === 1 ? 'forced' : 'open';
+    }
+
+    return {
+      x,
+      y,
+      collapsed: cell.collapsed,
+      tileId: cell.tileId,
+      possibleTiles: Array.from(cell.possibleTiles),
+      entropy: size > 0 ? this.cellEntropy(cell) : 0,
+      origin,
+      decisionLevel: level >= 0 ? level + 1 : null
+    };
+  }
+
+  /**
+   * Current partial output in the visualization mode. The image is reused by later steps; copy it to keep it.
+   */
+  renderState(): RGBAImage {
+    return this.renderPartial()!;
+  }
+
+  /**
+   * Pixels of the cells redrawn since the last call, or null before the first render.
+   * Keeps another copy of the image in sync (e.g. across a worker boundary) at a cost
+   * proportional to the changed cells.
+   */
+  takeRenderPatch(): GridPatch | null {
+    if (!this.renderer) return null;
+    const patch = this.renderer.readCells(this.patchCells);
+    for (const cellIndex of this.patchCells) {
+      this.patched[cellIndex] = 0;
+    }
+    this.patchCells = [];
+    return patch;
+  }
+
+  private describeStep(kind: WFCStep['kind'], decision: Decision): WFCStep {
+    return {
+      kind,
+      x: decision.cellIndex % this.gridWidth,
+      y: Math.floor(decision.cellIndex / this.gridWidth),
+      tileId: decision.tileId
+    };
+  }
+
+  /**
+   * Re-apply a decision undone by stepBack, with the tiles it had already refuted
+   */
+  private replayDecision(decision: Decision): void {
+    const cell = this.grid[Math.floor(decision.cellIndex / this.gridWidth)][decision.cellIndex % this.gridWidth];
+    decision.mark = this.trail.length;
+    this.decisions.push(decision);
+    for (const tileId of decision.refuted) {
+      if (cell.possibleTiles.has(tileId)) {
+        this.ban(cell, this.tileIndex.get(tileId)!);
+      }
+    }
+    this.propagateConstraints();
+    if (this.conflictCell < 0) {
+      this.assignTile(cell, decision.tileId);
+      this.propagateConstraints();
+    }
+  }
+
+  /**
+   * Narrow the cells on constrained edges to their edge's tiles, and ban the interior tiles elsewhere
+   */
+  private applyBorders(): void {
+    for (let y = 0; y < this.gridHeight; y++) {
+      for (let x = 0; x < this.gridWidth; x++) {
+        const edges = this.constrainedEdgesAt(x, y);
+        const cell = this.grid[y][x];
+        for (const id of Array.from(cell.possibleTiles)) {
+          const allowed = edges.length > 0 ? edges.every(edge => edge.has(id)) : !this.interiorBans.has(id);
+          if (!allowed) {
+            this.ban(cell, this.tileIndex.get(id)!);
+          }
+        }
+        // An edge with a single tile fixes its cells, like a pin
+        if (edges.some(edge => edge.size === 1) && cell.possibleTiles.size === 1) {
+          cell.collapsed = true;
+          cell.tileId = cell.possibleTiles.values().next().value!;
+          this.markDirty(this.cellIndex(x, y));
+          this.collapsedQueue.push(this.cellIndex(x, y));
+        }
+      }
+    }
+  }
+
+  /**
+   * Allowed tile sets of the constrained edges a cell lies on
+   */
+  private constrainedEdgesAt(x: number, y: number): Set<number>[] {
+    const edges: Set<number>[] = [];
+    const add = (edge: BorderEdge, onEdge: boolean) => {
+      const allowed = this.borders.get(edge);
+      if (onEdge && allowed) edges.push(allowed);
+    };
+    add('top', y === 0);
+    add('bottom', y === this.gridHeight - 1);
+    add('left', x === 0);
+    add('right', x === this.gridWidth - 1);
+    return edges;
+  }
+
+  private hasConstraints(): boolean {
+    return this.cellConstraints.size > 0 || this.borders.size > 0 || this.interiorBans.size > 0;
+  }
+
+  /**
+   * Fail fast when the constraints or rules leave a cell empty before any decision
+   */
+  private checkInitialState(): void {
+    const contradiction = this.getContradictionCell();
+    if (!contradiction) return;
+    const { x, y } = contradiction;
+    throw new Error(
+      this.hasConstraints()
+        ? `The constraints leave no possible tile at (${x}, ${y}). Try removing some pins or borders.`
+        : `The tile set has no valid tile for cell (${x}, ${y}).`
+    );
+  }
+
+  private unsatisfiableError(): Error {
+    return new Error(
+      this.hasConstraints()
+        ? 'No output satisfies these constraints. Try removing some pins or borders.'
+        : 'No output of this size satisfies the tile set\'s adjacency rules.'
+    );
+  }
+
+  /**
+   * Shannon entropy of a cell's remaining tiles, from the same weights collapseCell samples with
+   */
+  private cellEntropy(cell: Cell): number {
+    return this.entropy(cell.possibleTiles, cell.possibleTiles.size);
+  }
+
+  private entropy(tileIds: Iterable<number>, count: number): number {
+    let sumWeights = 0;
+    let sumWeightLogWeight = 0;
+    for (const tileId of tileIds) {
+      const weight = this.tileWeights.get(tileId) ?? 1;
+      if (weight > 0) {
+        sumWeights += weight;
+        sumWeightLogWeight += weight * Math.log(weight);
+      }
+    }
+    // A domain of zero-weight tiles counts as uniform
+    return sumWeights > 0
+      ? Math.log(sumWeights) - (sumWeightLogWeight / sumWeights)
+      : Math.log(count);
+  }
+
+  /**
+   * Make a new decision: collapse a cell to a weighted random tile
+   */
+  private collapseCell(cell: Cell): void {
+    const mark = this.trail.length;
+    const choices = cell.possibleTiles.size;
+    const tileId = this.chooseTile(cell);
+    this.stats.decisions++;
+    this.decisions.push({
+      cellIndex: this.cellIndex(cell.x, cell.y),
+      tileId,
+      mark,
+      refuted: [],
+      conflictLevels: new Set(),
+      choices
+    });
+    this.assignTile(cell, tileId);
+  }
+
+  /**
+   * Pick a weighted random tile from the cell's domain, skipping tiles that fail the lookahead
+   */
+  private chooseTile(cell: Cell): number {
+    const possibilities = Array.from(cell.possibleTiles);
+    const candidates = possibilities.slice();
+    const weights = candidates.map(id => this.tileWeights.get(id) ?? 1);
+
+    // Draw tiles by weight without replacement; a draw that would empty a neighbor
+    // (lookahead) is discarded and the next one is drawn from the rest
+    let chosenTile: number | null = null;
+    while (candidates.length > 0) {
+      const pick = weightedIndex(weights, this.random);
+      const id = candidates[pick];
+      candidates.splice(pick, 1);
+      weights.splice(pick, 1);
+
+      // Simulate assigning this tile
+      // For each neighbor, check if at least one valid tile remains
+      let valid = true;
+      for (const { direction, neighbor } of this.getNeighbors(cell)) {
+        if (neighbor.collapsed) continue;
+        // Simulate neighbor's possible tiles if this cell is assigned 'id'
+        const neighborPossible = new Set(neighbor.possibleTiles);
+        // Only keep tiles compatible with this assignment
+        const rules = this.adjacencyRules.get(id);
+        if (!rules) continue;
+        const allowed = new Set(rules[direction]);
+        const filtered = Array.from(neighborPossible).filter(tid => allowed.has(tid));
+        if (filtered.length === 0) {
+          valid = false;
+          break;
+        }
+      }
+      if (valid) {
+        chosenTile = id;
+        break;
+      }
+    }
+
+    // If no tile passes lookahead, fall back to first possible tile (contradiction will be handled by backtracking)
+    return chosenTile ?? possibilities[0];
+  }
+
+  /**
+   * Undo the failed decision and retry its cell with every refuted tile banned.
+   * When no alternative is left, the decision below fails in turn; with backjumping
+   * that is the latest decision the conflicts depend on, so the decisions skipped
+   * could not have avoided them. Returns false once the root runs out of alternatives,
+   * i.e. no output exists.
+   */
+  private backtrack(): boolean {
+    this.lastConflict = this.conflictCell;
+    this.clearTouched();
+    const depth = this.decisions.length;
+    let failing = depth - 1;
+    let conflict = this.conflictCell;
+
+    while (failing >= 0) {
+      const decision = this.decisions[failing];
+      const level = failing + 1;
+      if (this.backjumping && conflict >= 0) {
+        this.collectConflictLevels(decision, conflict, level);
+      }
+
+      this.rollbackTo(failing);
+      decision.refuted.push(decision.tileId);
+      this.decisions.push(decision);
+
+      const cell = this.grid[Math.floor(decision.cellIndex / this.gridWidth)][decision.cellIndex % this.gridWidth];
+      for (const tileId of decision.refuted) {
+        if (cell.possibleTiles.has(tileId)) {
+          this.ban(cell, this.tileIndex.get(tileId)!);
+        }
+      }
+      this.propagateConstraints();
+
+      if (this.conflictCell < 0) {
+        decision.tileId = this.chooseTile(cell);
+        this.assignTile(cell, decision.tileId);
+        this.propagateConstraints();
+        if (this.conflictCell < 0) {
+          this.stats.maxRollbackDepth = Math.max(this.stats.maxRollbackDepth, depth - failing);
+          return true;
+        }
+        this.stats.contradictions++;
+        conflict = this.conflictCell;
+        continue;
+      }
+
+      // Every alternative fails here, so some decision below has to change
+      let target = failing - 1;
+      if (this.backjumping) {
+        this.collectConflictLevels(decision, this.conflictCell, level);
+        this.collectConflictLevels(decision, decision.cellIndex, level);
+        const culprit = Math.max(0, ...decision.conflictLevels);
+        // Level 0 means only the initial state is involved; stay chronological to be safe
+        if (culprit > 0) {
+          target = culprit - 1;
+          for (const other of decision.conflictLevels) {
+            if (other < culprit) this.decisions[target].conflictLevels.add(other);
+          }
+        }
+      }
+      this.stats.contradictions++;
+      this.rollbackTo(failing);
+      failing = target;
+      conflict = -1;
+    }
+
+    this.stats.maxRollbackDepth = Math.max(this.stats.maxRollbackDepth, depth);
+    return false;
+  }
+
+  /**
+   * Add the earlier decision levels a cell's removed tiles depend on. A removal made by
+   * propagation is traced back through the removals in the neighbor that withdrew its
+   * support, until it reaches removals made by decisions; those decisions' levels are
+   * collected. Removals from the initial state (level 0) need no explanation.
+   */
+  private collectConflictLevels(decision: Decision, cellIndex: number, level: number): void {
+    const tileCount = this.tileIds.length;
+    const visit = ++this.explanation;
+    const pending: number[] = [];
+    const enqueue = (entry: number) => {
+      if (this.wave[entry] || this.banLevel[entry] === 0 || this.explained[entry] === visit) return;
+      this.explained[entry] = visit;
+      pending.push(entry);
+    };
+
+    for (let t = 0; t < tileCount; t++) {
+      enqueue(cellIndex * tileCount + t);
+    }
+    while (pending.length > 0) {
+      const entry = pending.pop()!;
+      const d = this.banReason[entry];
+      if (d < 0) {
+        if (this.banLevel[entry] < level) decision.conflictLevels.add(this.banLevel[entry]);
+        continue;
+      }
+      // Counter d of this tile ran out: every supporter in the cell on the opposite side was removed
+      const cell = Math.floor(entry / tileCount);
+      const source = this.neighborIndex(cell % this.gridWidth, Math.floor(cell / this.gridWidth), OPPOSITE[d]);
+      for (const t1 of this.supporters[d][entry - cell * tileCount]) {
+        enqueue(source * tileCount + t1);
+      }
+    }
+  }
+
+  /**
+   * Drop decisions[index] and everything above it, restoring the exact state it was made in
+   */
+  private rollbackTo(index: number): void {
+    for (let i = this.decisions.length - 1; i >= index; i--) {
+      const { cellIndex } = this.decisions[i];
+      const cell = this.grid[Math.floor(cellIndex / this.gridWidth)][cellIndex % this.gridWidth];
+      cell.collapsed = false;
+      cell.tileId = null;
+      this.markDirty(cellIndex);
+      this.cellSelection.cellReopened?.(cell.x, cell.y);
+    }
+    const mark = this.decisions[index].mark;
+    this.decisions.length = index;
+    this.undoTo(mark);
+  }
+
+  /**
+   * Replay the trail backwards down to a mark
+   */
+  private undoTo(mark: number): void {
+    const tileCount = this.tileIds.length;
+
+    while (this.trail.length > mark) {
+      const record = this.trail.pop()!;
+      const entry = Math.floor(record / 2);
+      const cellIndex = Math.floor(entry / tileCount);
+      const t = entry - cellIndex * tileCount;
+
+      if (record % 2 === 0) {
+        this.wave[entry] = 1;
+        this.markDirty(cellIndex);
+        if (!this.touched[cellIndex]) {
+          this.touched[cellIndex] = 1;
+          this.touchedCells.push(cellIndex);
+        }
+        this.grid[Math.floor(cellIndex / this.gridWidth)][cellIndex % this.gridWidth].possibleTiles.add(this.tileIds[t]);
+        continue;
+      }
+
+      // Give back the support this removal withdrew from the neighbors
+      const x = cellIndex % this.gridWidth;
+      const y = Math.floor(cellIndex / this.gridWidth);
+      for (let d = 0; d < 4; d++) {
+        const neighborIndex = this.neighborIndex(x, y, d);
+        if (neighborIndex < 0) continue;
+        const base = neighborIndex * tileCount;
+        for (const t2 of this.propagator[d][t]) {
+          this.compatible[(base + t2) * 4 + d]++;
+        }
+      }
+    }
+
+    this.removalQueue = [];
+    this.conflictCell = -1;
+  }
+
+  /**
+   * Fix a cell to one tile by banning every other possibility
+   */
+  private assignTile(cell: Cell, tileId: number): void {
+    // If the tile was no longer allowed this empties the domain, which reads as a contradiction.
+    // Banning in tile order rather than set order keeps a replayed decision's conflict identical.
+    const base = this.cellIndex(cell.x, cell.y) * this.tileIds.length;
+    for (let t = 0; t < this.tileIds.length; t++) {
+      if (this.wave[base + t] && this.tileIds[t] !== tileId) {
+        this.ban(cell, t);
+      }
+    }
+    cell.collapsed = true;
+    cell.tileId = tileId;
+    this.markDirty(this.cellIndex(cell.x, cell.y));
+    this.collapsedQueue.push(this.cellIndex(cell.x, cell.y));
+  }
+
+  /**
+   * Remove a tile from a cell's domain, log it on the trail and queue it for propagation.
+   * reason is the direction whose support ran out, or -1 when the removal is not propagated.
+   */
+  private ban(cell: Cell, tile: number, reason = -1): void {
+    const cellIndex = this.cellIndex(cell.x, cell.y);
+    const entry = cellIndex * this.tileIds.length + tile;
+    this.wave[entry] = 0;
+    cell.possibleTiles.delete(this.tileIds[tile]);
+    this.banLevel[entry] = this.decisions.length;
+    this.banReason[entry] = reason;
+    this.trail.push(entry * 2);
+    this.removalQueue.push(entry);
+    this.markDirty(cellIndex);
+    if (cell.possibleTiles.size === 0) {
+      this.conflictCell = cellIndex;
+    }
+  }
+
+  /**
+   * AC-4 propagation: each removed tile withdraws its support from the neighbors,
+   * and any neighbor tile left without support in some direction is removed in turn.
+   * This constrains uncollapsed cells transitively, not just next to collapsed ones.
+   */
+  private propagateConstraints(): void {
+    const tileCount = this.tileIds.length;
+    const cascade = this.propagation === 'arc-consistency';
+
+    while (this.conflictCell < 0) {
+      if (this.removalQueue.length === 0) {
+        // Without cascading, new collapses are the only source of further bans
+        if (cascade || this.collapsedQueue.length === 0) break;
+        this.filterAroundCollapsed();
+        continue;
+      }
+
+      const entry = this.removalQueue.pop()!;
+      this.trail.push(entry * 2 + 1);
+      this.stats.propagationSteps++;
+      const cellIndex = Math.floor(entry / tileCount);
+      const t1 = entry - cellIndex * tileCount;
+      const x1 = cellIndex % this.gridWidth;
+      const y1 = Math.floor(cellIndex / this.gridWidth);
+
+      for (let d = 0; d < 4; d++) {
+        const neighborIndex = this.neighborIndex(x1, y1, d);
+        if (neighborIndex < 0) continue;
+        const neighbor = this.grid[Math.floor(neighborIndex / this.gridWidth)][neighborIndex % this.gridWidth];
+        const base = neighborIndex * tileCount;
+
+        // Counters of already banned tiles keep counting down too, which keeps undo a plain increment
+        for (const t2 of this.propagator[d][t1]) {
+          const counter = (base + t2) * 4 + d;
+          this.compatible[counter]--;
+          if (cascade && this.compatible[counter] === 0 && this.wave[base + t2]) {
+            this.ban(neighbor, t2, d);
+          }
+        }
+      }
+    }
+    this.collapsedQueue = [];
+
+    // On a contradiction the caller backtracks, so the rest of the queue is moot
+    if (this.conflictCell >= 0) {
+      this.removalQueue = [];
+    }
+  }
+
+  /**
+   * 'collapsed-neighbors' mode: once the counters are up to date, ban the tiles that a newly
+   * collapsed cell doesn't allow next to it. Nothing cascades past those neighbors.
+   */
+  private filterAroundCollapsed(): void {
+    const tileCount = this.tileIds.length;
+    while (this.collapsedQueue.length > 0 && this.conflictCell < 0) {
+      const cellIndex = this.collapsedQueue.pop()!;
+      const x = cellIndex % this.gridWidth;
+      const y = Math.floor(cellIndex / this.gridWidth);
+      for (let d = 0; d < 4 && this.conflictCell < 0; d++) {
+        const neighborIndex = this.neighborIndex(x, y, d);
+        if (neighborIndex < 0) continue;
+        const neighbor = this.grid[Math.floor(neighborIndex / this.gridWidth)][neighborIndex % this.gridWidth];
+        const base = neighborIndex * tileCount;
+        for (let t = 0; t < tileCount; t++) {
+          if (this.wave[base + t] && this.compatible[(base + t) * 4 + d] <= 0) {
+            this.ban(neighbor, t, d);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Flat index of a cell
+   */
+  private cellIndex(x: number, y: number): number {
+    return y * this.gridWidth + x;
+  }
+
+  /**
+   * Flat index of the neighbor in direction d, or -1 past a non-periodic edge
+   */
+  private neighborIndex(x: number, y: number, d: number): number {
+    let nx = x + DX[d];
+    let ny = y + DY[d];
+    if (this.periodic) {
+      nx = (nx + this.gridWidth) % this.gridWidth;
+      ny = (ny + this.gridHeight) % this.gridHeight;
+    } else if (nx < 0 || ny < 0 || nx >= this.gridWidth || ny >= this.gridHeight) {
+      return -1;
+    }
+    return this.cellIndex(nx, ny);
+  }
+
+  /**
+   * Render partial grid state for visualization, drawing undecided cells according to the visualization mode.
+   * Returns the generator's own image, which later frames overwrite; copy it to keep it.
+   */
+  private renderPartial(): RGBAImage | null {
+    return this.refreshImage(this.visualization);
+  }
+
+  /**
+   * Bring the persistent image up to date: redraw the cells that changed since the last frame,
+   * or all of them after a mode switch, so a frame costs time in proportion to what changed
+   */
+  private refreshImage(mode: VisualizationMode): RGBAImage {
+    if (!this.renderer) {
+      const step = this.tileSize - this.overlapSize;
+      this.renderer = new GridRenderer(this.tileSet.getTiles(), this.gridWidth, this.gridHeight, step, this.periodic);
+    }
+    if (this.renderedMode !== mode) {
+      for (let cellIndex = 0; cellIndex < this.dirty.length; cellIndex++) {
+        this.markDirty(cellIndex);
+      }
+      this.renderedMode = mode;
+    }
+
+    // Tints blend with what is underneath, so overlay cells are redrawn before tinting again
+    const conflict = this.conflictCell >= 0 ? this.conflictCell : this.lastConflict;
+    const overlay = mode === 'backtracking' ? this.touchedCells.slice() : [];
+    if (mode === 'backtracking' && conflict >= 0) overlay.push(conflict);
+    for (const cellIndex of this.overlayCells) this.markDirty(cellIndex);
+    for (const cellIndex of overlay) this.markDirty(cellIndex);
+
+    for (const cellIndex of this.dirtyCells) {
+      this.drawCell(this.renderer, cellIndex, mode);
+      this.dirty[cellIndex] = 0;
+      if (!this.patched[cellIndex]) {
+        this.patched[cellIndex] = 1;
+        this.patchCells.push(cellIndex);
+      }
+    }
+    this.dirtyCells = [];
+
+    if (mode === 'backtracking') {
+      for (const cellIndex of this.touchedCells) {
+        this.renderer.tint(cellIndex % this.gridWidth, Math.floor(cellIndex / this.gridWidth), BACKTRACK_COLOR, 0.5);
+      }
+      if (conflict >= 0) {
+        this.renderer.tint(conflict % this.gridWidth, Math.floor(conflict / this.gridWidth), CONTRADICTION_COLOR, 1);
+      }
+    }
+    this.overlayCells = overlay;
+
+    return this.renderer.image;
+  }
+
+  private drawCell(renderer: GridRenderer, cellIndex: number, mode: VisualizationMode): void {
+    const x = cellIndex % this.gridWidth;
+    const y = Math.floor(cellIndex / this.gridWidth);
+    const cell = this.grid[y][x];
+    const size = cell.possibleTiles.size;
+    const tileCount = this.tileIds.length;
+    const heatmap = mode === 'entropy' || mode === 'domain-size';
+
+    if (cell.collapsed && cell.tileId !== null && !heatmap) {
+      renderer.drawTile(x, y, this.tileIndex.get(cell.tileId)!);
+    } else if (mode === 'gray') {
+      renderer.fill(x, y, [0x80, 0x80, 0x80, 0xff]);
+    } else if (size === 0) {
+      renderer.fill(x, y, CONTRADICTION_COLOR);
+    } else if (mode === 'entropy') {
+      renderer.fill(x, y, heatColor(this.maxEntropy > 0 ? this.cellEntropy(cell) / this.maxEntropy : 0));
+    } else if (mode === 'domain-size') {
+      renderer.fill(x, y, heatColor(tileCount > 1 ? (size - 1) / (tileCount - 1) : 0));
+    } else {
+      renderer.drawAverage(x, y, this.wave, cellIndex * tileCount, tileCount);
+    }
+  }
+
+  /**
+   * Queue a cell for redrawing in the next frame
+   */
+  private markDirty(cellIndex: number): void {
+    if (this.dirty[cellIndex]) return;
+    this.dirty[cellIndex] = 1;
+    this.dirtyCells.push(cellIndex);
+  }
+
+  private clearTouched(): void {
+    for (const cellIndex of this.touchedCells) {
+      this.touched[cellIndex] = 0;
+    }
+    this.touchedCells = [];
+  }
+
+  /**
+   * Output image size in pixels.
+   * Periodic grids fold the trailing overlap back onto the start, so they lose tileSize - step pixels.
+   */
+  getOutputSize(): { width: number; height: number } {
+    const step = this.tileSize - this.overlapSize;
+    if (this.periodic) {
+      return { width: this.gridWidth * step, height: this.gridHeight * step };
+    }
+    return {
+      width: this.tileSize + (this.gridWidth - 1) * step,
+      height: this.tileSize + (this.gridHeight - 1) * step
+    };
+  }
+
+  /**
+   * Get neighboring cells with their directions (wrapping around the edges in periodic mode)
+   */
+  private getNeighbors(cell: Cell): Array<{ direction: 'up' | 'down' | 'left' | 'right'; neighbor: Cell }> {
+    const neighbors: Array<{ direction: 'up' | 'down' | 'left' | 'right'; neighbor: Cell }> = [];
+    const { x, y } = cell;
+    const w = this.gridWidth;
+    const h = this.gridHeight;
+
+    if (this.periodic) {
+      neighbors.push(
+        { direction: 'up', neighbor: this.grid[(y - 1 + h) % h][x] },
+        { direction: 'down', neighbor: this.grid[(y + 1) % h][x] },
+        { direction: 'left', neighbor: this.grid[y][(x - 1 + w) % w] },
+        { direction: 'right', neighbor: this.grid[y][(x + 1) % w] }
+      );
+      return neighbors;
+    }
+
+    if (y > 0) {
+      neighbors.push({ direction: 'up', neighbor: this.grid[y - 1][x] });
+    }
+    if (y < h - 1) {
+      neighbors.push({ direction: 'down', neighbor: this.grid[y + 1][x] });
+    }
+    if (x > 0) {
+      neighbors.push({ direction: 'left', neighbor: this.grid[y][x - 1] });
+    }
+    if (x < w - 1) {
+      neighbors.push({ direction: 'right', neighbor: this.grid[y][x + 1] });
+    }
+
+    return neighbors;
+  }
+
+  /**
+   * Check if there's any contradiction in the grid and return its location
+   */
+  private getContradictionCell(): { x: number; y: number } | null {
+    for (let y = 0; y < this.gridHeight; y++) {
+      for (let x = 0; x < this.gridWidth; x++) {
+        const cell = this.grid[y][x];
+        if (cell.possibleTiles.size === 0) {
+          return { x, y };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Count how many cells are collapsed
+   */
+  private countCollapsedCells(): number {
+    let count = 0;
+    for (let y = 0; y < this.gridHeight; y++) {
+      for (let x = 0; x < this.gridWidth; x++) {
+        if (this.grid[y][x].collapsed) {
+          count++;
+        }
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Check if all cells are collapsed
+   */
+  private isFullyCollapsed(): boolean {
+    for (let y = 0; y < this.gridHeight; y++) {
+      for (let x = 0; x < this.gridWidth; x++) {
+        if (!this.grid[y][x].collapsed) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Render the final grid to an RGBA image owned by the caller.
+   * Shares the partial renders' image, so after live frames only the cells changed since the last one are redrawn.
+   */
+  render(): RGBAImage {
+    // Collapsed cells look the same in both modes; gray keeps uncollapsed cells cheap
+    const mode = this.visualization === 'gray' ? 'gray' : 'average';
+    const image = this.refreshImage(mode);
+    return { width: image.width, height: image.height, data: image.data.slice() };
+  }
+}
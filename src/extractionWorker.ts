@@ -0,0 +1,37 @@
+import { TileSet } from './core/tileSet';
+import { extractPatterns } from './core/patternExtractor';
+import { analyzeTileSet } from './core/tileSetAnalyzer';
+import { ExtractionRequest, ExtractionResponse } from './workerProtocol';
+
+/**
+ * Minimum time between progress messages, so the main thread isn't flooded
+ */
+const PROGRESS_INTERVAL_MS = 16;
+
+function post(message: ExtractionResponse): void {
+  self.postMessage(message);
+}
+
+// Extraction has a worker of its own, so it never waits for (or cancels) a running generation
+self.onmessage = (event: MessageEvent<ExtractionRequest>) => {
+  const { id, image, tileSize, options } = event.data;
+  try {
+    let lastProgress = 0;
+    const result = extractPatterns(image, tileSize, options, (done, total) => {
+      const now = Date.now();
+      if (now - lastProgress < PROGRESS_INTERVAL_MS && done < total) return;
+      lastProgress = now;
+      post({ id, type: 'progress', stage: 'patterns', done, total });
+    });
+
+    post({ id, type: 'progress', stage: 'rules', done: 0, total: 1 });
+    const tileSet = new TileSet(result.patterns, result.frequencies);
+
+    post({ id, type: 'progress', stage: 'analysis', done: 0, total: 1 });
+    const analysis = analyzeTileSet(tileSet);
+
+    post({ id, type: 'done', result, rules: tileSet.getAdjacencyRules(), analysis });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
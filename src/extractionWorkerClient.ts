@@ -0,0 +1,78 @@
+import { AdjacencyRules } from './core/tileSet';
+import { RGBAImage } from './core/image';
+import { ExtractionOptions, ExtractionResult } from './core/patternExtractor';
+import { TileSetAnalysis } from './core/tileSetAnalyzer';
+import { ExtractionRequest, ExtractionResponse, ExtractionStage } from './workerProtocol';
+
+export interface ExtractedTileSet {
+  result: ExtractionResult;
+  /** Overlap rules, to pass to the TileSet so they aren't matched twice */
+  rules: Map<number, AdjacencyRules>;
+  analysis: TileSetAnalysis;
+}
+
+/**
+ * Extracts patterns, matches their overlaps and analyzes the rules in a Web Worker of its own,
+ * so large samples neither block the page nor wait for a running generation
+ */
+export class ExtractionWorkerClient {
+  private worker: Worker;
+  private nextId = 0;
+
+  constructor() {
+    this.worker = new Worker(new URL('./extractionWorker.ts', import.meta.url), { type: 'module' });
+  }
+
+  extract(
+    image: RGBAImage,
+    tileSize: number,
+    options: ExtractionOptions = {},
+    onProgress?: (stage: ExtractionStage, done: number, total: number) => void
+  ): Promise<ExtractedTileSet> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+
+      const cleanup = () => {
+        this.worker.removeEventListener('message', onMessage);
+        this.worker.removeEventListener('error', onError);
+      };
+
+      const onMessage = (event: MessageEvent<ExtractionResponse>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.stage, message.done, message.total);
+            break;
+          case 'done':
+            cleanup();
+            resolve({ result: message.result, rules: message.rules, analysis: message.analysis });
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      const onError = (event: ErrorEvent) => {
+        cleanup();
+        reject(new Error(event.message || 'Extraction worker crashed'));
+      };
+
+      this.worker.addEventListener('message', onMessage);
+      this.worker.addEventListener('error', onError);
+
+      const request: ExtractionRequest = { type: 'extract', id, image, tileSize, options };
+      this.worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Stop the worker for good
+   */
+  dispose(): void {
+    this.worker.terminate();
+  }
+}
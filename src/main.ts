@@ -19,7 +19,8 @@ try {
     CONFIG.elements.tileSizeInput,
     CONFIG.elements.adjacencyViewer,
     CONFIG.elements.generateWfcBtn,
-    CONFIG.elements.outputSizeInput,
+    CONFIG.elements.outputWidthInput,
+    CONFIG.elements.outputHeightInput,
     CONFIG.elements.wfcOutput,
     fullPaths
   );
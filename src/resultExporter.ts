@@ -0,0 +1,123 @@
+import { CONFIG } from './config';
+import { TileSet } from './core/tileSet';
+import { WFCResult } from './core/wfcGenerator';
+import {
+  createTileAtlas,
+  createTileMapExport,
+  createTiledJson,
+  createTiledXml,
+  upscaleImage
+} from './core/mapExport';
+import { downloadBlob, imageToPngBlob } from './canvasUtils';
+
+/**
+ * Export actions for the latest generated output: PNG, tile-ID JSON and Tiled maps
+ */
+export class ResultExporter {
+  private container: HTMLElement;
+  private scaleInput: HTMLInputElement;
+  private result: WFCResult | null = null;
+  private tileSet: TileSet | null = null;
+  private source = '';
+
+  constructor(containerId: string) {
+    const el = document.getElementById(containerId);
+    if (!el) {
+      throw new Error(`Result exporter container '${containerId}' not found`);
+    }
+    this.container = el;
+
+    const scaleLabel = document.createElement('label');
+    scaleLabel.textContent = 'PNG scale: ';
+    this.scaleInput = document.createElement('input');
+    this.scaleInput.type = 'number';
+    this.scaleInput.min = '1';
+    this.scaleInput.max = String(CONFIG.export.maxScale);
+    this.scaleInput.value = '1';
+    this.scaleInput.setAttribute('aria-label', 'Integer upscale factor for the PNG');
+    scaleLabel.appendChild(this.scaleInput);
+    this.container.appendChild(scaleLabel);
+
+    this.addButton('PNG', 'Download the output image', () => this.exportPng());
+    this.addButton('JSON', 'Download the tile ID grid with seed and tileset reference', () => this.exportJson());
+    this.addButton('Tiled .tmj', 'Download a Tiled JSON map and its tile atlas', () => this.exportTiled('tmj'));
+    this.addButton('Tiled .tmx', 'Download a Tiled XML map and its tile atlas', () => this.exportTiled('tmx'));
+
+    this.setResult(null);
+  }
+
+  /**
+   * Show export actions for a finished run, or hide them
+   * @param source - Sample path or tileset file name the tiles came from
+   */
+  setResult(result: WFCResult | null, tileSet: TileSet | null = null, source = ''): void {
+    this.result = result;
+    this.tileSet = tileSet;
+    this.source = source;
+    this.container.hidden = !result || !tileSet;
+  }
+
+  private addButton(text: string, title: string, onClick: () => Promise<void> | void): void {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'secondary';
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', async () => {
+      try {
+        await onClick();
+      } catch (error) {
+        console.error('Error exporting output:', error);
+        alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+    this.container.appendChild(button);
+  }
+
+  private async exportPng(): Promise<void> {
+    if (!this.result) return;
+    const scale = parseInt(this.scaleInput.value);
+    if (isNaN(scale) || scale < 1 || scale > CONFIG.export.maxScale) {
+      alert(`Please enter a scale between 1 and ${CONFIG.export.maxScale}`);
+      return;
+    }
+    const image = upscaleImage(this.result.imageData, scale);
+    const suffix = scale > 1 ? `@${scale}x` : '';
+    downloadBlob(await imageToPngBlob(image), `${this.baseName()}${suffix}.png`);
+  }
+
+  private exportJson(): void {
+    if (!this.result || !this.tileSet) return;
+    const map = createTileMapExport(this.result.tileIds, this.result.seed, this.tileSet, this.source);
+    downloadBlob(new Blob([JSON.stringify(map)], { type: 'application/json' }), `${this.baseName()}.json`);
+  }
+
+  /**
+   * Tiled needs the map and the atlas image it points at, so both are downloaded
+   */
+  private async exportTiled(format: 'tmj' | 'tmx'): Promise<void> {
+    if (!this.result || !this.tileSet) return;
+    const baseName = this.baseName();
+    const atlasFile = `${baseName}-atlas.png`;
+    const map = createTileMapExport(this.result.tileIds, this.result.seed, this.tileSet, this.source);
+    const atlas = createTileAtlas(this.tileSet);
+    const options = { atlasFile, name: this.sourceName() };
+
+    const text = format === 'tmj'
+      ? createTiledJson(map, this.tileSet, atlas, options)
+      : createTiledXml(map, this.tileSet, atlas, options);
+    const type = format === 'tmj' ? 'application/json' : 'application/xml';
+
+    downloadBlob(new Blob([text], { type }), `${baseName}.${format}`);
+    downloadBlob(await imageToPngBlob(atlas.image), atlasFile);
+  }
+
+  private sourceName(): string {
+    const name = this.source.split('/').pop()?.replace(/\.[^.]+$/, '');
+    return name || 'wfc';
+  }
+
+  private baseName(): string {
+    return `${this.sourceName()}-${this.result?.seed ?? 0}`;
+  }
+}
@@ -0,0 +1,45 @@
+import { CONFIG } from './config';
+
+export interface ImportedSample {
+  /** Object URL of the image, valid for the rest of the session */
+  url: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Check and decode a user-supplied image so it can be listed as a sample
+ */
+export async function importSampleImage(file: File, name = file.name): Promise<ImportedSample> {
+  const { maxFileBytes, maxDimension } = CONFIG.samples;
+
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${name} is not an image`);
+  }
+  if (file.size > maxFileBytes) {
+    const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+    throw new Error(`${name} is ${megabytes(file.size)} MB; the limit is ${megabytes(maxFileBytes)} MB`);
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const { width, height } = await decodeSize(url, name);
+    if (width > maxDimension || height > maxDimension) {
+      throw new Error(`${name} is ${width} × ${height} px; samples can be at most ${maxDimension} px on each side`);
+    }
+    return { url, name, width, height };
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+}
+
+function decodeSize(url: string, name: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error(`${name} could not be read as an image`));
+    img.src = url;
+  });
+}
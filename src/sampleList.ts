@@ -13,42 +13,58 @@ export class SampleList {
     }
   
     private createPreviews(samples: string[]) {
-      samples.forEach((src) => {
-        const img = document.createElement('img');
-        img.src = src;
-        img.alt = `Sample image ${src.split('/').pop()}`;
-        img.role = 'button';
-        img.tabIndex = 0;
-        img.style.imageRendering = 'pixelated';
-        img.style.margin = '5px';
-        img.style.cursor = 'pointer';
-  
-        img.onload = () => {
-          const maxPreviewSize = CONFIG.ui.maxSamplePreviewSize;
-          const scale = Math.floor(maxPreviewSize / img.naturalWidth) || 1;
-          img.width = img.naturalWidth * scale;
-          img.height = img.naturalHeight * scale;
-        };
-
-        img.onerror = () => {
-          console.error(`Failed to load sample image: ${src}`);
-          img.style.opacity = '0.3';
-          img.title = 'Failed to load image';
-        };
-  
-        img.addEventListener('click', () => {
-          if (this.selected) {
-            this.selected.classList.remove('selected');
-          }
-          this.selected = img;
-          img.classList.add('selected');
-          if (this.selectCallback) this.selectCallback(img.src);
-        });
-  
-        this.container.appendChild(img);
-      });
+      samples.forEach((src) => this.createPreview(src, src.split('/').pop() ?? src));
     }
-  
+
+    private createPreview(src: string, name: string): HTMLImageElement {
+      const img = document.createElement('img');
+      img.src = src;
+      img.alt = `Sample image ${name}`;
+      img.title = name;
+      img.dataset.name = name;
+      img.role = 'button';
+      img.tabIndex = 0;
+      img.style.imageRendering = 'pixelated';
+      img.style.margin = '5px';
+      img.style.cursor = 'pointer';
+
+      img.onload = () => {
+        const maxPreviewSize = CONFIG.ui.maxSamplePreviewSize;
+        const scale = Math.floor(maxPreviewSize / img.naturalWidth) || 1;
+        img.width = img.naturalWidth * scale;
+        img.height = img.naturalHeight * scale;
+      };
+
+      img.onerror = () => {
+        console.error(`Failed to load sample image: ${src}`);
+        img.style.opacity = '0.3';
+        img.title = 'Failed to load image';
+      };
+
+      img.addEventListener('click', () => this.select(img));
+
+      this.container.appendChild(img);
+      return img;
+    }
+
+    private select(img: HTMLImageElement) {
+      if (this.selected) {
+        this.selected.classList.remove('selected');
+      }
+      this.selected = img;
+      img.classList.add('selected');
+      if (this.selectCallback) this.selectCallback(img.src);
+    }
+
+    /**
+     * Add an imported image next to the built-in samples and select it
+     */
+    addSample(src: string, name: string) {
+      const img = this.createPreview(src, name);
+      img.classList.add('imported');
+      this.select(img);
+    }
+
     onSelect(callback: (src: string) => void) {
       this.selectCallback = callback;
     }
@@ -56,5 +72,12 @@ export class SampleList {
     getSelected(): string | null {
       return this.selected?.src || null;
     }
+
+    /**
+     * File name of the selected sample; imported images have opaque blob URLs
+     */
+    getSelectedName(): string | null {
+      return this.selected?.dataset.name || null;
+    }
   }
   
\ No newline at end of file
@@ -13,6 +13,7 @@ export interface Highlight {
     private ctx: CanvasRenderingContext2D;
     private image: HTMLImageElement | null = null;
     private highlight: Highlight | null = null;
+    private periodicInput = true;
     private sizeLabel: HTMLDivElement;
   
     constructor(containerId: string) {
@@ -57,6 +58,14 @@ export interface Highlight {
       this.draw();
     }
   
+    /**
+     * Match the extractor's periodic-input setting, so highlights only wrap when windows do
+     */
+    setPeriodicInput(periodic: boolean) {
+      this.periodicInput = periodic;
+      this.draw();
+    }
+  
     private draw() {
       if (!this.image || !this.ctx) return;
     
@@ -106,6 +115,8 @@ export interface Highlight {
         h0 * scale
       );
     
+      if (!this.periodicInput) return;
+    
       if (x0 + w > imgW) {
         const wWrap = w - w0;
         ctx.strokeRect(
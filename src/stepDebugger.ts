@@ -0,0 +1,346 @@
+import { CONFIG } from './config';
+import { Tile, TileSet } from './core/tileSet';
+import { CellInspection, WFCGenerator, WFCStep } from './core/wfcGenerator';
+import { getCellSize } from './core/mapExport';
+import { VisualizationMode } from './core/visualization';
+import { imageToCanvas } from './canvasUtils';
+
+/** Play speeds: delay between ticks in ms and steps per tick */
+const SPEEDS: ReadonlyArray<{ label: string; delay: number; steps: number }> = [
+  { label: 'Slow', delay: 250, steps: 1 },
+  { label: 'Normal', delay: 16, steps: 1 },
+  { label: 'Fast', delay: 16, steps: 25 }
+];
+
+const ORIGIN_LABELS: Record<CellInspection['origin'], string> = {
+  decision: 'chosen by a decision',
+  forced: 'forced by propagation',
+  constraint: 'pinned by a constraint',
+  contradiction: 'contradiction: no tile left',
+  open: 'undecided'
+};
+
+/**
+ * Runs a generator one decision at a time on the main thread. Play, pause, step and
+ * step back through the search; hovering a cell shows its remaining tiles, entropy and
+ * whether a decision or propagation settled it.
+ */
+export class StepDebugger {
+  private container: HTMLElement;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private playBtn: HTMLButtonElement;
+  private stepBtn: HTMLButtonElement;
+  private stepBackBtn: HTMLButtonElement;
+  private speedSelect: HTMLSelectElement;
+  private status: HTMLDivElement;
+  private inspector: HTMLDivElement;
+  private generator: WFCGenerator | null = null;
+  private tilesById = new Map<number, Tile>();
+  private thumbnails = new Map<number, HTMLCanvasElement>();
+  private gridWidth = 0;
+  private gridHeight = 0;
+  private cellSize = 1;
+  private zoom = 1;
+  private lastStep: WFCStep | null = null;
+  private hovered: { x: number; y: number } | null = null;
+  private timer: number | null = null;
+  private error: string | null = null;
+
+  constructor(containerId: string) {
+    const el = document.getElementById(containerId);
+    if (!el) {
+      throw new Error(`Step debugger container '${containerId}' not found`);
+    }
+    this.container = el;
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'debugger-toolbar';
+    this.playBtn = this.addButton(toolbar, 'Play', 'Run steps until paused or finished', () => this.togglePlay());
+    this.stepBtn = this.addButton(toolbar, 'Step', 'Make one decision, or backtrack from a contradiction', () => {
+      this.pause();
+      this.advance(1);
+    });
+    this.stepBackBtn = this.addButton(toolbar, 'Step back', 'Undo the latest decision', () => {
+      this.pause();
+      this.back();
+    });
+
+    const speedLabel = document.createElement('label');
+    speedLabel.textContent = 'Speed: ';
+    this.speedSelect = document.createElement('select');
+    this.speedSelect.setAttribute('aria-label', 'How fast Play steps through the run');
+    SPEEDS.forEach((speed, i) => {
+      const option = document.createElement('option');
+      option.value = String(i);
+      option.textContent = speed.label;
+      this.speedSelect.appendChild(option);
+    });
+    this.speedSelect.value = '1';
+    speedLabel.appendChild(this.speedSelect);
+    toolbar.appendChild(speedLabel);
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'debugger-canvas';
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2D rendering context');
+    this.ctx = ctx;
+
+    this.status = document.createElement('div');
+    this.status.className = 'debugger-status';
+    this.inspector = document.createElement('div');
+    this.inspector.className = 'debugger-inspector';
+
+    const body = document.createElement('div');
+    body.className = 'debugger-body';
+    body.appendChild(this.canvas);
+    body.appendChild(this.inspector);
+
+    this.container.appendChild(toolbar);
+    this.container.appendChild(body);
+    this.container.appendChild(this.status);
+
+    this.canvas.addEventListener('mousemove', (e) => {
+      const cell = this.cellAt(e);
+      if (cell?.x === this.hovered?.x && cell?.y === this.hovered?.y) return;
+      this.hovered = cell;
+      this.render();
+    });
+    this.canvas.addEventListener('mouseleave', () => {
+      this.hovered = null;
+      this.render();
+    });
+
+    this.start(null);
+  }
+
+  /**
+   * Debug a fresh run of the generator, or close the debugger.
+   * The generator must not be running generate() at the same time.
+   */
+  start(generator: WFCGenerator | null, tileSet: TileSet | null = null, gridWidth = 0, gridHeight = 0): void {
+    this.pause();
+    this.generator = generator;
+    this.lastStep = null;
+    this.hovered = null;
+    this.error = null;
+    this.thumbnails.clear();
+    this.tilesById = new Map(tileSet?.getTiles().map(tile => [tile.id, tile]) ?? []);
+    this.gridWidth = gridWidth;
+    this.gridHeight = gridHeight;
+    this.container.hidden = !generator;
+    if (!generator || !tileSet) return;
+
+    this.cellSize = getCellSize(tileSet);
+    const { width, height } = generator.getOutputSize();
+    this.zoom = Math.max(1, Math.floor(CONFIG.canvas.maxSize / Math.max(width, height)));
+    this.canvas.width = width * this.zoom;
+    this.canvas.height = height * this.zoom;
+
+    try {
+      generator.beginStepping();
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    this.render();
+  }
+
+  /**
+   * Redraw the current state in another visualization mode
+   */
+  setVisualization(mode: VisualizationMode): void {
+    if (!this.generator) return;
+    this.generator.setVisualization(mode);
+    this.render();
+  }
+
+  private addButton(parent: HTMLElement, text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'secondary';
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    parent.appendChild(button);
+    return button;
+  }
+
+  private togglePlay(): void {
+    if (this.timer !== null) {
+      this.pause();
+      return;
+    }
+    this.playBtn.textContent = 'Pause';
+    this.tick();
+  }
+
+  private tick(): void {
+    const speed = SPEEDS[parseInt(this.speedSelect.value)] ?? SPEEDS[1];
+    this.advance(speed.steps);
+    if (this.isFinished()) {
+      this.pause();
+      return;
+    }
+    this.timer = window.setTimeout(() => this.tick(), speed.delay);
+  }
+
+  private pause(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.playBtn.textContent = 'Play';
+  }
+
+  private isFinished(): boolean {
+    return !this.generator || this.error !== null || this.lastStep?.kind === 'done';
+  }
+
+  private advance(steps: number): void {
+    const generator = this.generator;
+    if (!generator || this.isFinished()) return;
+    try {
+      for (let i = 0; i < steps; i++) {
+        this.lastStep = generator.step();
+        if (this.lastStep.kind === 'done') break;
+      }
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    this.render();
+  }
+
+  private back(): void {
+    if (!this.generator || this.error !== null) return;
+    if (this.generator.stepBack()) {
+      this.lastStep = null;
+    }
+    this.render();
+  }
+
+  /**
+   * Grid cell under the pointer; with overlapping tiles a pixel belongs to the cell anchored at it
+   */
+  private cellAt(e: MouseEvent): { x: number; y: number } | null {
+    if (!this.generator) return null;
+    const rect = this.canvas.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * this.canvas.width / this.zoom;
+    const py = ((e.clientY - rect.top) / rect.height) * this.canvas.height / this.zoom;
+    const x = Math.min(this.gridWidth - 1, Math.floor(px / this.cellSize));
+    const y = Math.min(this.gridHeight - 1, Math.floor(py / this.cellSize));
+    return x >= 0 && y >= 0 ? { x, y } : null;
+  }
+
+  private render(): void {
+    const generator = this.generator;
+    if (!generator) return;
+
+    const ctx = this.ctx;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(imageToCanvas(generator.renderState()), 0, 0, this.canvas.width, this.canvas.height);
+
+    const step = this.lastStep;
+    if (step?.x !== undefined && step.y !== undefined) {
+      this.outlineCell(step.x, step.y, step.kind === 'backtrack' ? '#dc3545' : '#667eea');
+    }
+    if (this.hovered) {
+      this.outlineCell(this.hovered.x, this.hovered.y, '#ffc107');
+    }
+
+    this.renderStatus(generator);
+    this.renderInspector(generator);
+
+    const finished = this.isFinished();
+    this.playBtn.disabled = finished;
+    this.stepBtn.disabled = finished;
+    this.stepBackBtn.disabled = this.error !== null || generator.getDecisionDepth() === 0;
+  }
+
+  private outlineCell(x: number, y: number, color: string): void {
+    const size = this.cellSize * this.zoom;
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 2;
+    this.ctx.strokeRect(x * size + 1, y * size + 1, size - 2, size - 2);
+  }
+
+  private renderStatus(generator: WFCGenerator): void {
+    const stats = generator.getStats();
+    const parts = [
+      `Seed ${generator.getSeed()}`,
+      `Depth ${generator.getDecisionDepth()}`,
+      `${stats.decisions} decisions`,
+      `${stats.backtracks} backtracks`
+    ];
+    const step = this.lastStep;
+    if (this.error) {
+      parts.push(`Stopped: ${this.error}`);
+    } else if (step?.kind === 'done') {
+      parts.push('Done');
+    } else if (step) {
+      const verb = step.kind === 'backtrack' ? 'Retried' : 'Placed';
+      parts.push(`${verb} tile ${step.tileId} at (${step.x}, ${step.y})`);
+    }
+    this.status.textContent = parts.join(' · ');
+  }
+
+  private renderInspector(generator: WFCGenerator): void {
+    this.inspector.innerHTML = '';
+    if (!this.hovered) {
+      const hint = document.createElement('em');
+      hint.textContent = 'Hover over a cell to inspect it';
+      this.inspector.appendChild(hint);
+      return;
+    }
+
+    const cell = generator.inspectCell(this.hovered.x, this.hovered.y);
+    const title = document.createElement('strong');
+    title.textContent = `Cell (${cell.x}, ${cell.y})`;
+    this.inspector.appendChild(title);
+
+    const details = [
+      ORIGIN_LABELS[cell.origin],
+      cell.decisionLevel !== null ? `decision level ${cell.decisionLevel}` : null,
+      `${cell.possibleTiles.length} possible tiles`,
+      `entropy ${cell.entropy.toFixed(2)}`
+    ];
+    for (const detail of details) {
+      if (!detail) continue;
+      const line = document.createElement('div');
+      line.textContent = detail;
+      this.inspector.appendChild(line);
+    }
+
+    const tilesDiv = document.createElement('div');
+    tilesDiv.className = 'debugger-tiles';
+    const shown = cell.possibleTiles.slice(0, CONFIG.ui.maxInspectorTiles);
+    for (const tileId of shown) {
+      const tile = this.tilesById.get(tileId);
+      if (tile) tilesDiv.appendChild(this.createThumbnail(tile));
+    }
+    if (cell.possibleTiles.length > shown.length) {
+      const more = document.createElement('span');
+      more.textContent = `+${cell.possibleTiles.length - shown.length} more`;
+      tilesDiv.appendChild(more);
+    }
+    this.inspector.appendChild(tilesDiv);
+  }
+
+  private createThumbnail(tile: Tile): HTMLCanvasElement {
+    let source = this.thumbnails.get(tile.id);
+    if (!source) {
+      source = imageToCanvas(tile.pixelData);
+      this.thumbnails.set(tile.id, source);
+    }
+    const size = CONFIG.ui.inspectorTileSize;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    canvas.title = `Tile ${tile.id}`;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(source, 0, 0, size, size);
+    }
+    return canvas;
+  }
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs';
+import { inflateSync } from 'node:zlib';
+import { RGBAImage } from '../core/image';
+
+/**
+ * Decode an 8-bit RGB or RGBA PNG from the samples folder
+ */
+export function loadSample(name: string): RGBAImage {
+  const file = readFileSync(new URL(`../../samples/${name}.png`, import.meta.url));
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset < file.length;) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString('ascii', offset + 4, offset + 8);
+    const chunk = file.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      channels = chunk[9] === 6 ? 4 : chunk[9] === 2 ? 3 : 0;
+      if (chunk[8] !== 8 || channels === 0) throw new Error(`${name}.png is not 8-bit RGB or RGBA`);
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    }
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const data = new Uint8ClampedArray(width * height * 4);
+  let previous = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? line[i - channels] : 0;
+      const up = previous[i];
+      const upLeft = i >= channels ? previous[i - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      line[i] = (line[i] + predictor) & 0xff;
+    }
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) {
+        data[(y * width + x) * 4 + c] = c < channels ? line[x * channels + c] : 0xff;
+      }
+    }
+    previous = line;
+  }
+  return { width, height, data };
+}
@@ -1,8 +1,17 @@
 import { CONFIG } from './config';
-
+import { ExtractionResult } from './core/patternExtractor';
+import { Tile } from './core/tileSet';
+import { RGBAImage } from './core/image';
+import { imageToCanvas, readImagePixels } from './canvasUtils';
+
+/**
+ * Canvas side of pattern extraction: loads the sample and builds the tile gallery
+ */
 export class TileExtractor {
     private container: HTMLDivElement;
     private label: HTMLDivElement;
+    private tileClickHandler: ((tileIndex: number) => void) | null = null;
+    private entries = new Map<number, HTMLDivElement>();
 
     constructor(containerId: string, labelId: string) {
       const cont = document.getElementById(containerId);
@@ -14,169 +23,201 @@ export class TileExtractor {
       this.label = lab as HTMLDivElement;
     }
 
-    generate(
-      imgSrc: string,
+    /**
+     * Load a sample image and read its pixels
+     */
+    load(imgSrc: string): Promise<RGBAImage> {
+      return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.src = imgSrc;
+
+        img.onerror = () => {
+          reject(new Error(`Failed to load image: ${imgSrc}`));
+        };
+
+        img.onload = () => {
+          try {
+            resolve(readImagePixels(img));
+          } catch (error) {
+            reject(error);
+          }
+        };
+      });
+    }
+
+    /**
+     * Fill the gallery with extracted patterns. Large pattern sets only show the first
+     * CONFIG.ui.maxGalleryTiles, so the page doesn't create tens of thousands of canvases.
+     */
+    showPatterns(
+      result: ExtractionResult,
       tileSize: number,
       onHover: (rect: { x: number; y: number; w: number; h: number }) => void,
       onLeave: () => void,
       onTileHover?: (tileIndex: number, canvas: HTMLCanvasElement) => void,
       onTileLeave?: () => void
-    ): Promise<{ tiles: HTMLCanvasElement[], frequencies: Map<number, number> }> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.src = imgSrc;
-
-      const tiles: HTMLCanvasElement[] = [];
-
-      img.onerror = () => {
-        reject(new Error(`Failed to load image: ${imgSrc}`));
-      };
-
-      img.onload = () => {
-        const width = img.naturalWidth;
-        const height = img.naturalHeight;
-
-        const mainCanvas = document.createElement('canvas');
-        mainCanvas.width = width;
-        mainCanvas.height = height;
-        const mainCtx = mainCanvas.getContext('2d');
-        if (!mainCtx) {
-          console.error('Failed to get 2D context for main canvas');
-          resolve({ tiles: [], frequencies: new Map() });
-          return;
+    ): void {
+      this.clearGallery();
+
+      const shown = result.patterns.slice(0, CONFIG.ui.maxGalleryTiles);
+      for (const pattern of shown) {
+        const entry = this.createTileEntry(pattern, `${pattern.id}`);
+        if (!entry) continue;
+        const { wrapper: tileWrapper, label: index_text, canvas: tileCanvas, source: tempCanvas } = entry;
+
+        if (pattern.sourceId !== null) {
+          // Derived variant: show which original it came from
+          index_text.textContent = `${pattern.id} ← ${pattern.sourceId}`;
+          index_text.title = `${pattern.transform} of tile ${pattern.sourceId}`;
+          tileWrapper.classList.add('variant-tile');
         }
-        mainCtx.drawImage(img, 0, 0);
 
-        // Remove all children and event listeners from container
-        while (this.container.firstChild) {
-          const node = this.container.firstChild;
-          if (node instanceof HTMLElement) {
-            node.replaceWith(node.cloneNode(true));
-          }
-          this.container.removeChild(this.container.firstChild);
-        }
-        const seen = new Set<string>();
-        const frequencyMap = new Map<string, number>(); // Track how many times each tile appears
-
-        for (let y = 0; y < height; y++) {
-          for (let x = 0; x < width; x++) {
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = tileSize;
-            tempCanvas.height = tileSize;
-            const tempCtx = tempCanvas.getContext('2d');
-            if (!tempCtx) {
-              console.error('Failed to get 2D context for temp canvas');
-              continue;
-            }
+        // Variants highlight the sample window of their original
+        const tileX = pattern.x;
+        const tileY = pattern.y;
 
-            for (let dy = 0; dy < tileSize; dy++) {
-              for (let dx = 0; dx < tileSize; dx++) {
-                const px = (x + dx) % width;
-                const py = (y + dy) % height;
-                const data = mainCtx.getImageData(px, py, 1, 1);
-                tempCtx.putImageData(data, dx, dy);
-              }
+        ((index) => {
+          tileCanvas.addEventListener('mouseenter', () => {
+            onHover({ x: tileX, y: tileY, w: tileSize, h: tileSize });
+            if (onTileHover) {
+              onTileHover(index, tempCanvas);
             }
-
-            const hashData = tempCtx.getImageData(0, 0, tileSize, tileSize);
-            const hashParts: string[] = [];
-            for (let i = 0; i < hashData.data.length; i += 4) {
-              hashParts.push(
-                hashData.data[i].toString(),
-                hashData.data[i + 1].toString(),
-                hashData.data[i + 2].toString(),
-                hashData.data[i + 3].toString()
-              );
+          });
+          tileCanvas.addEventListener('mouseleave', () => {
+            onLeave();
+            if (onTileLeave) {
+              onTileLeave();
             }
-            const hash = hashParts.join(',');
-
-            // Track frequency of this tile pattern
-            frequencyMap.set(hash, (frequencyMap.get(hash) || 0) + 1);
-
-            if (seen.has(hash)) continue;
-            seen.add(hash);
-
-            const tileWrapper = document.createElement('div');
-            
-            const index_text = document.createElement('span');
-            index_text.textContent = `${tiles.length}`;
-
-            const tileCanvas = document.createElement('canvas');
-            tileCanvas.width = tileSize * CONFIG.ui.tileScaleFactor;
-            tileCanvas.height = tileSize * CONFIG.ui.tileScaleFactor;
-            const tileCtx = tileCanvas.getContext('2d');
-            if (!tileCtx) {
-              console.error('Failed to get 2D context for tile canvas');
-              continue;
-            }
-            tileCtx.imageSmoothingEnabled = false;
-            tileCtx.drawImage(tempCanvas, 0, 0, tileCanvas.width, tileCanvas.height);
-            tileCanvas.style.imageRendering = 'pixelated';
-            tileCanvas.style.border = '1px solid #ccc';
-
-            tileWrapper.appendChild(index_text);
-            tileWrapper.appendChild(tileCanvas);
-            this.container.appendChild(tileWrapper);
-            
-            tiles.push(tempCanvas);
-            const currentTileIndex = tiles.length - 1;
-
-            const tileX = x;
-            const tileY = y;
-            
-            ((index) => {
-              tileCanvas.addEventListener('mouseenter', () => {
-                onHover({ x: tileX, y: tileY, w: tileSize, h: tileSize });
-                if (onTileHover) {
-                  onTileHover(index, tempCanvas);
-                }
-              });
-              tileCanvas.addEventListener('mouseleave', () => {
-                onLeave();
-                if (onTileLeave) {
-                  onTileLeave();
-                }
-              });
-            })(currentTileIndex);
-          }
-        }
+          });
+        })(pattern.id);
+      }
+
+      const total = result.patterns.length;
+      let text = total > result.originalCount
+        ? `Tiles: ${total} (${result.originalCount} from sample)`
+        : `Tiles: ${total}`;
+      if (shown.length < total) {
+        text += `, showing first ${shown.length}`;
+      }
+      this.label.textContent = text;
+    }
 
-        this.label.textContent = `Tiles: ${tiles.length}`;
-        
-        // Convert hash-based frequencies to tile ID-based frequencies
-        const tileIdFrequencies = new Map<number, number>();
-        const hashToId = new Map<string, number>();
-        
-        // Build hash-to-ID mapping
-        for (let i = 0; i < tiles.length; i++) {
-          const canvas = tiles[i];
-          const ctx = canvas.getContext('2d');
-          if (!ctx) continue;
-          
-          const imageData = ctx.getImageData(0, 0, tileSize, tileSize);
-          const hashParts: string[] = [];
-          for (let j = 0; j < imageData.data.length; j += 4) {
-            hashParts.push(
-              imageData.data[j].toString(),
-              imageData.data[j + 1].toString(),
-              imageData.data[j + 2].toString(),
-              imageData.data[j + 3].toString()
-            );
-          }
-          const hash = hashParts.join(',');
-          hashToId.set(hash, i);
+    /**
+     * Show tiles that didn't come from a sample (e.g. a loaded simple tiled model), labelled by name when given
+     */
+    showTiles(
+      tiles: Tile[],
+      names: string[],
+      onTileHover?: (tileIndex: number, canvas: HTMLCanvasElement) => void,
+      onTileLeave?: () => void
+    ): void {
+      this.clearGallery();
+
+      for (const tile of tiles) {
+        const entry = this.createTileEntry(tile, `${tile.id}`);
+        if (!entry) continue;
+        const name = names[tile.id];
+        if (name) {
+          entry.label.title = name;
+          entry.label.textContent = `${tile.id}: ${name}`;
         }
-        
-        // Map frequencies from hash to tile ID
-        for (const [hash, count] of frequencyMap.entries()) {
-          const tileId = hashToId.get(hash);
-          if (tileId !== undefined) {
-            tileIdFrequencies.set(tileId, count);
-          }
+
+        entry.canvas.addEventListener('mouseenter', () => onTileHover?.(tile.id, entry.source));
+        entry.canvas.addEventListener('mouseleave', () => onTileLeave?.());
+      }
+
+      this.label.textContent = `Tiles: ${tiles.length}`;
+    }
+
+    /**
+     * Register a handler for clicks on gallery tiles; the clicked tile is marked selected
+     */
+    onTileClick(handler: (tileIndex: number) => void): void {
+      this.tileClickHandler = handler;
+    }
+
+    /**
+     * Mark a tile selected (e.g. after navigating to it elsewhere) and scroll it into view
+     */
+    selectTile(tileId: number): void {
+      this.container.querySelectorAll('.selected').forEach(node => node.classList.remove('selected'));
+      const wrapper = this.entries.get(tileId);
+      wrapper?.classList.add('selected');
+      wrapper?.scrollIntoView({ block: 'nearest' });
+    }
+
+    /**
+     * Flag tiles the analyzer found problems with; the reasons show as a tooltip
+     */
+    markProblemTiles(problems: Map<number, string[]>): void {
+      for (const [id, wrapper] of this.entries) {
+        const reasons = problems.get(id);
+        wrapper.classList.toggle('problem-tile', reasons !== undefined);
+        wrapper.title = reasons ? reasons.join('\n') : '';
+      }
+    }
+
+    /**
+     * Remove all children and event listeners from container
+     */
+    private clearGallery(): void {
+      this.entries.clear();
+      while (this.container.firstChild) {
+        const node = this.container.firstChild;
+        if (node instanceof HTMLElement) {
+          node.replaceWith(node.cloneNode(true));
         }
-        
-        resolve({ tiles, frequencies: tileIdFrequencies });
-      };
-    });
-  }
+        this.container.removeChild(this.container.firstChild);
+      }
+    }
+
+    /**
+     * Append a scaled-up preview of a tile with a label to the gallery
+     */
+    private createTileEntry(tile: Tile, text: string): {
+      wrapper: HTMLDivElement;
+      label: HTMLSpanElement;
+      canvas: HTMLCanvasElement;
+      source: HTMLCanvasElement;
+    } | null {
+      const tileSize = tile.pixelData.width;
+      const source = imageToCanvas(tile.pixelData);
+
+      const wrapper = document.createElement('div');
+
+      const label = document.createElement('span');
+      label.textContent = text;
+
+      // Large hand-authored tiles get a smaller zoom so the gallery stays compact
+      const scale = Math.min(
+        CONFIG.ui.tileScaleFactor,
+        Math.max(1, Math.floor(CONFIG.ui.maxGalleryTileSize / tileSize))
+      );
+      const canvas = document.createElement('canvas');
+      canvas.width = tileSize * scale;
+      canvas.height = tileSize * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        console.error('Failed to get 2D context for tile canvas');
+        return null;
+      }
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+      canvas.style.imageRendering = 'pixelated';
+      canvas.style.border = '1px solid #ccc';
+
+      canvas.addEventListener('click', () => {
+        if (!this.tileClickHandler) return;
+        this.container.querySelectorAll('.selected').forEach(node => node.classList.remove('selected'));
+        wrapper.classList.add('selected');
+        this.tileClickHandler(tile.id);
+      });
+
+      wrapper.appendChild(label);
+      wrapper.appendChild(canvas);
+      this.container.appendChild(wrapper);
+      this.entries.set(tile.id, wrapper);
+
+      return { wrapper, label, canvas, source };
+    }
 }
@@ -0,0 +1,92 @@
+import { RGBAImage } from './core/image';
+import {
+  SimpleTiledModel,
+  buildSimpleTiledModel,
+  parseSimpleTiledDefinition
+} from './core/simpleTiledModel';
+import { readImagePixels } from './canvasUtils';
+
+/**
+ * Load a simple tiled model from user-picked files: one .json or .xml definition
+ * plus the tile images, matched to tile names by file name without extension.
+ */
+export async function loadSimpleTiledModel(files: File[]): Promise<SimpleTiledModel> {
+  const definitionFile = files.find(file => /\.(json|xml)$/i.test(file.name));
+  if (!definitionFile) {
+    throw new Error('Please include a .json or .xml tileset definition');
+  }
+
+  const text = await definitionFile.text();
+  const raw = /\.xml$/i.test(definitionFile.name) ? parseXmlDefinition(text) : parseJson(text);
+  const definition = parseSimpleTiledDefinition(raw);
+
+  const images = new Map<string, RGBAImage>();
+  for (const file of files) {
+    if (file === definitionFile || !file.type.startsWith('image/')) continue;
+    images.set(file.name.replace(/\.[^.]+$/, ''), await decodeImageFile(file));
+  }
+
+  return buildSimpleTiledModel(definition, images);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Tileset definition is not valid JSON');
+  }
+}
+
+/**
+ * Convert the reference implementation's XML format
+ * (<set size unique><tiles><tile .../></tiles><neighbors><neighbor .../></neighbors></set>)
+ * into the same shape as the JSON format
+ */
+function parseXmlDefinition(text: string): unknown {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Tileset definition is not valid XML');
+  }
+  const set = doc.documentElement;
+
+  const size = set.getAttribute('size');
+  const weight = (tile: Element) => {
+    const value = tile.getAttribute('weight');
+    return value === null ? undefined : parseFloat(value);
+  };
+
+  return {
+    size: size === null ? undefined : parseInt(size),
+    unique: set.getAttribute('unique')?.toLowerCase() === 'true',
+    tiles: Array.from(set.querySelectorAll('tiles > tile')).map(tile => ({
+      name: tile.getAttribute('name'),
+      symmetry: tile.getAttribute('symmetry') ?? undefined,
+      weight: weight(tile)
+    })),
+    neighbors: Array.from(set.querySelectorAll('neighbors > neighbor')).map(neighbor => ({
+      left: neighbor.getAttribute('left'),
+      right: neighbor.getAttribute('right')
+    }))
+  };
+}
+
+function decodeImageFile(file: File): Promise<RGBAImage> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      try {
+        resolve(readImagePixels(img));
+      } catch (error) {
+        reject(error);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Failed to load image: ${file.name}`));
+    };
+    img.src = url;
+  });
+}
@@ -0,0 +1,82 @@
+import { TileSet } from './core/tileSet';
+import { WFCGenerator } from './core/wfcGenerator';
+import { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+/**
+ * Minimum time between partial frames, so the main thread isn't flooded
+ */
+const FRAME_INTERVAL_MS = 16;
+
+let controller: AbortController | null = null;
+let currentId = -1;
+let currentGenerator: WFCGenerator | null = null;
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'generate':
+      void run(request);
+      break;
+    case 'cancel':
+      if (request.id === currentId) {
+        controller?.abort();
+      }
+      break;
+    case 'visualization':
+      if (request.id === currentId) {
+        currentGenerator?.setVisualization(request.mode);
+      }
+      break;
+  }
+};
+
+async function run(request: Extract<WorkerRequest, { type: 'generate' }>): Promise<void> {
+  // One run at a time: a new request supersedes the previous one
+  controller?.abort();
+  const current = new AbortController();
+  const id = request.id;
+  controller = current;
+  currentId = id;
+
+  try {
+    const tileSet = new TileSet(request.tiles, request.frequencies, {
+      model: request.model,
+      rules: request.rules
+    });
+    const generator = new WFCGenerator(tileSet, request.gridWidth, request.gridHeight, request.options);
+    currentGenerator = generator;
+
+    let lastFrame = 0;
+    const result = await generator.generate(
+      (collapsed, total) => {
+        post({ id, type: 'progress', collapsed, total });
+      },
+      () => {
+        const now = Date.now();
+        if (now - lastFrame < FRAME_INTERVAL_MS) return;
+        lastFrame = now;
+        // Only the cells redrawn since the last frame are sent; skipped frames carry over
+        const patch = generator.takeRenderPatch();
+        if (patch) post({ id, type: 'frame', patch }, [patch.cells.buffer, patch.pixels.buffer]);
+      },
+      current.signal
+    );
+
+    post({ id, type: 'done', result }, [result.imageData.data.buffer]);
+  } catch (error) {
+    if (current.signal.aborted) {
+      post({ id, type: 'cancelled' });
+      return;
+    }
+    post({ id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  } finally {
+    if (controller === current) {
+      controller = null;
+      currentGenerator = null;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { TileSet } from './core/tileSet';
+import { RGBAImage } from './core/image';
+import { WFCResult } from './core/wfcGenerator';
+import { VisualizationMode } from './core/visualization';
+import { GridRenderer } from './core/gridRenderer';
+import { WorkerGenerateOptions, WorkerRequest, WorkerResponse } from './workerProtocol';
+
+export interface WorkerGenerateCallbacks {
+  onProgress?: (collapsed: number, total: number) => void;
+  onVisualize?: (image: RGBAImage) => void;
+}
+
+/**
+ * Runs WFC generation in a Web Worker so the page stays responsive
+ */
+export class WFCWorkerClient {
+  private worker: Worker;
+  private nextId = 0;
+
+  constructor() {
+    this.worker = new Worker(new URL('./wfcWorker.ts', import.meta.url), { type: 'module' });
+  }
+
+  /**
+   * Generate off the main thread. Aborting the signal cancels the run and rejects with the signal's reason.
+   */
+  generate(
+    tileSet: TileSet,
+    gridWidth: number,
+    gridHeight: number,
+    options: WorkerGenerateOptions,
+    callbacks: WorkerGenerateCallbacks = {},
+    signal?: AbortSignal
+  ): Promise<WFCResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const id = this.nextId++;
+      // Copy of the worker's partial image, kept current by the frame patches
+      let renderer: GridRenderer | null = null;
+
+      const onAbort = () => this.send({ type: 'cancel', id });
+
+      const cleanup = () => {
+        this.worker.removeEventListener('message', onMessage);
+        this.worker.removeEventListener('error', onError);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onMessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+
+        switch (message.type) {
+          case 'progress':
+            callbacks.onProgress?.(message.collapsed, message.total);
+            break;
+          case 'frame':
+            if (!callbacks.onVisualize) break;
+            renderer ??= this.createRenderer(tileSet, gridWidth, gridHeight, options.periodic ?? false);
+            renderer.applyPatch(message.patch);
+            callbacks.onVisualize(renderer.image);
+            break;
+          case 'done':
+            cleanup();
+            resolve(message.result);
+            break;
+          case 'cancelled':
+            cleanup();
+            reject(signal?.reason ?? new Error('Generation cancelled'));
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      const onError = (event: ErrorEvent) => {
+        cleanup();
+        reject(new Error(event.message || 'Generation worker crashed'));
+      };
+
+      this.worker.addEventListener('message', onMessage);
+      this.worker.addEventListener('error', onError);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.send({
+        type: 'generate',
+        id,
+        tiles: tileSet.getTiles(),
+        frequencies: tileSet.getTileFrequencies(),
+        rules: tileSet.getAdjacencyRules(),
+        model: tileSet.model,
+        gridWidth,
+        gridHeight,
+        options
+      });
+    });
+  }
+
+  /**
+   * Change how the latest run draws its partial frames, while it is running
+   */
+  setVisualization(mode: VisualizationMode): void {
+    if (this.nextId === 0) return;
+    this.send({ type: 'visualization', id: this.nextId - 1, mode });
+  }
+
+  /**
+   * Renderer with the same geometry as the generator's, to apply its patches to
+   */
+  private createRenderer(tileSet: TileSet, gridWidth: number, gridHeight: number, periodic: boolean): GridRenderer {
+    const tiles = tileSet.getTiles();
+    const tileSize = tiles[0]?.pixelData.width || 3;
+    return new GridRenderer(tiles, gridWidth, gridHeight, tileSize - tileSet.getOverlap(), periodic);
+  }
+
+  /**
+   * Stop the worker for good
+   */
+  dispose(): void {
+    this.worker.terminate();
+  }
+
+  private send(message: WorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+}
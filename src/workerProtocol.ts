@@ -0,0 +1,71 @@
+import { AdjacencyRules, Tile, TileModel } from './core/tileSet';
+import { RGBAImage } from './core/image';
+import { WFCOptions, WFCResult } from './core/wfcGenerator';
+import { CellSelectionName } from './core/cellSelection';
+import { VisualizationMode } from './core/visualization';
+import { GridPatch } from './core/gridRenderer';
+import { ExtractionOptions, ExtractionResult } from './core/patternExtractor';
+import { TileSetAnalysis } from './core/tileSetAnalyzer';
+
+/**
+ * Generator options that survive structured cloning (no PRNG factory, built-in cell selection only)
+ */
+export type WorkerGenerateOptions = Omit<WFCOptions, 'createRandom' | 'cellSelection'> & {
+  cellSelection?: CellSelectionName;
+};
+
+/**
+ * Messages sent from the main thread to the generation worker.
+ * Every run carries an id, echoed on each response, so late messages from a superseded run can be ignored.
+ */
+export type WorkerRequest =
+  | {
+      type: 'generate';
+      id: number;
+      tiles: Tile[];
+      frequencies: Map<number, number>;
+      // Rules are sent along so the worker doesn't recompute them (and can't, for the simple model)
+      rules: Map<number, AdjacencyRules>;
+      model: TileModel;
+      gridWidth: number;
+      gridHeight: number;
+      options: WorkerGenerateOptions;
+    }
+  | { type: 'cancel'; id: number }
+  // Switch the visualization of a running generation
+  | { type: 'visualization'; id: number; mode: VisualizationMode };
+
+/**
+ * Messages sent from the generation worker back to the main thread
+ */
+export type WorkerResponse = { id: number } & (
+  | { type: 'progress'; collapsed: number; total: number }
+  // Cells redrawn since the previous frame, applied to the client's copy of the image
+  | { type: 'frame'; patch: GridPatch }
+  | { type: 'done'; result: WFCResult }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string }
+);
+
+/** What the extraction worker is busy with: reading patterns, matching overlaps, or checking the rules */
+export type ExtractionStage = 'patterns' | 'rules' | 'analysis';
+
+/**
+ * Messages sent from the main thread to the extraction worker
+ */
+export type ExtractionRequest = {
+  type: 'extract';
+  id: number;
+  image: RGBAImage;
+  tileSize: number;
+  options: ExtractionOptions;
+};
+
+/**
+ * Messages sent from the extraction worker back to the main thread
+ */
+export type ExtractionResponse = { id: number } & (
+  | { type: 'progress'; stage: ExtractionStage; done: number; total: number }
+  | { type: 'done'; result: ExtractionResult; rules: Map<number, AdjacencyRules>; analysis: TileSetAnalysis }
+  | { type: 'error'; message: string }
+);
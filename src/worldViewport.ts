@@ -0,0 +1,212 @@
+import { CONFIG } from './config';
+import { ChunkedWorld } from './core/chunkedWorld';
+import { imageToCanvas } from './canvasUtils';
+
+/**
+ * Pannable view onto a ChunkedWorld. Drag to scroll; chunks that come into view
+ * are generated one at a time, nearest to the center first. The world generates
+ * the neighbors a chunk depends on as well, so some chunks appear just outside the view.
+ */
+export class WorldViewport {
+  private container: HTMLElement;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private status: HTMLDivElement;
+  private world: ChunkedWorld | null = null;
+  private zoom = 1;
+  // World pixel shown at the top-left corner of the canvas
+  private viewX = 0;
+  private viewY = 0;
+  private drag: { x: number; y: number } | null = null;
+  private chunkCanvases = new Map<string, { revision: number; canvas: HTMLCanvasElement }>();
+  private failed = new Set<string>();
+  private controller: AbortController | null = null;
+  private pumping = false;
+
+  constructor(containerId: string) {
+    const el = document.getElementById(containerId);
+    if (!el) {
+      throw new Error(`World viewport container '${containerId}' not found`);
+    }
+    this.container = el;
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = CONFIG.world.viewportWidth;
+    this.canvas.height = CONFIG.world.viewportHeight;
+    this.canvas.className = 'world-canvas';
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2D rendering context');
+    this.ctx = ctx;
+
+    this.status = document.createElement('div');
+    this.status.className = 'world-status';
+
+    this.container.appendChild(this.canvas);
+    this.container.appendChild(this.status);
+
+    this.canvas.addEventListener('mousedown', (e) => {
+      this.drag = { x: e.clientX, y: e.clientY };
+    });
+    window.addEventListener('mousemove', (e) => {
+      if (!this.drag) return;
+      // CSS may shrink the canvas, so convert screen pixels to canvas pixels
+      const ratio = this.canvas.width / this.canvas.getBoundingClientRect().width;
+      this.viewX -= ((e.clientX - this.drag.x) * ratio) / this.zoom;
+      this.viewY -= ((e.clientY - this.drag.y) * ratio) / this.zoom;
+      this.drag = { x: e.clientX, y: e.clientY };
+      this.draw();
+    });
+    window.addEventListener('mouseup', () => {
+      this.drag = null;
+    });
+
+    this.setWorld(null);
+  }
+
+  /**
+   * Show a new world centered on chunk (0, 0), dropping the previous one
+   */
+  setWorld(world: ChunkedWorld | null): void {
+    this.controller?.abort();
+    this.controller = null;
+    this.world = world;
+    this.chunkCanvases.clear();
+    this.failed.clear();
+
+    if (world) {
+      const chunkPixels = world.getChunkPixelSize();
+      this.zoom = Math.max(1, Math.round(CONFIG.world.targetChunkSize / chunkPixels));
+      // Center the first chunk
+      this.viewX = chunkPixels / 2 - this.canvas.width / this.zoom / 2;
+      this.viewY = chunkPixels / 2 - this.canvas.height / this.zoom / 2;
+    }
+    this.draw();
+  }
+
+  private draw(): void {
+    this.render();
+    void this.pump();
+  }
+
+  private render(): void {
+    const ctx = this.ctx;
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#808080';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    const world = this.world;
+    if (!world) {
+      this.status.textContent = 'Generate or load tiles, then click "Explore World"';
+      return;
+    }
+
+    const size = world.getChunkPixelSize();
+    const screenSize = size * this.zoom;
+    const [first, last] = this.visibleChunkRange();
+
+    for (let cy = first.cy; cy <= last.cy; cy++) {
+      for (let cx = first.cx; cx <= last.cx; cx++) {
+        const x = Math.round((cx * size - this.viewX) * this.zoom);
+        const y = Math.round((cy * size - this.viewY) * this.zoom);
+        const canvas = this.chunkCanvas(cx, cy);
+        if (canvas) {
+          ctx.drawImage(canvas, x, y, screenSize, screenSize);
+        } else if (this.failed.has(`${cx},${cy}`)) {
+          ctx.fillStyle = 'rgba(220, 53, 69, 0.6)';
+          ctx.fillRect(x, y, screenSize, screenSize);
+        }
+      }
+    }
+
+    const failures = this.failed.size > 0 ? `, ${this.failed.size} failed` : '';
+    this.status.textContent =
+      `Seed ${world.getSeed()} · ${world.getChunkCount()} chunks · ` +
+      `${world.getSeamRepairCount()} seam repairs${failures} · drag to explore`;
+  }
+
+  /**
+   * Chunk coordinates of the top-left and bottom-right chunks in view
+   */
+  private visibleChunkRange(): [{ cx: number; cy: number }, { cx: number; cy: number }] {
+    const size = this.world!.getChunkPixelSize();
+    const right = this.viewX + this.canvas.width / this.zoom;
+    const bottom = this.viewY + this.canvas.height / this.zoom;
+    return [
+      { cx: Math.floor(this.viewX / size), cy: Math.floor(this.viewY / size) },
+      { cx: Math.floor(right / size), cy: Math.floor(bottom / size) }
+    ];
+  }
+
+  /**
+   * Cached canvas of a generated chunk, rebuilt when a seam repair changed it
+   */
+  private chunkCanvas(cx: number, cy: number): HTMLCanvasElement | null {
+    const chunk = this.world?.getChunk(cx, cy);
+    if (!chunk) return null;
+    const key = `${cx},${cy}`;
+    const cached = this.chunkCanvases.get(key);
+    if (cached && cached.revision === chunk.revision) {
+      return cached.canvas;
+    }
+    const canvas = imageToCanvas(chunk.image);
+    this.chunkCanvases.set(key, { revision: chunk.revision, canvas });
+    return canvas;
+  }
+
+  /**
+   * Generate missing visible chunks one by one, nearest to the view center first
+   */
+  private async pump(): Promise<void> {
+    if (this.pumping || !this.world) return;
+    this.pumping = true;
+    const world = this.world;
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      for (;;) {
+        const next = this.nextMissingChunk();
+        if (!next || this.world !== world) break;
+        const key = `${next.cx},${next.cy}`;
+        try {
+          await world.generateChunk(next.cx, next.cy, controller.signal);
+        } catch (error) {
+          if (controller.signal.aborted) break;
+          console.error('Error generating chunk:', error);
+          this.failed.add(key);
+        }
+        if (this.world !== world) break;
+        this.render();
+      }
+    } finally {
+      this.pumping = false;
+    }
+    // The world was replaced while a chunk was generating
+    if (this.world && this.world !== world) {
+      void this.pump();
+    }
+  }
+
+  private nextMissingChunk(): { cx: number; cy: number } | null {
+    const world = this.world;
+    if (!world) return null;
+    const size = world.getChunkPixelSize();
+    const centerX = this.viewX + this.canvas.width / this.zoom / 2;
+    const centerY = this.viewY + this.canvas.height / this.zoom / 2;
+    const [first, last] = this.visibleChunkRange();
+
+    let best: { cx: number; cy: number } | null = null;
+    let bestDistance = Infinity;
+    for (let cy = first.cy; cy <= last.cy; cy++) {
+      for (let cx = first.cx; cx <= last.cx; cx++) {
+        if (world.getChunk(cx, cy) || this.failed.has(`${cx},${cy}`)) continue;
+        const distance = Math.hypot((cx + 0.5) * size - centerX, (cy + 0.5) * size - centerY);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = { cx, cy };
+        }
+      }
+    }
+    return best;
+  }
+}